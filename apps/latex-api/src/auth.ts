@@ -0,0 +1,163 @@
+import { readFileSync } from "node:fs";
+import { getActiveForKey, type KeyLimit } from "./queue";
+
+const DEFAULT_MAX_CONCURRENT = parseInt(
+  process.env.API_KEY_MAX_CONCURRENT || "2",
+  10,
+);
+const DEFAULT_DAILY_BUILDS = parseInt(
+  process.env.API_KEY_DAILY_BUILDS || "500",
+  10,
+);
+
+export interface ApiKey {
+  key: string;
+  name: string;
+  maxConcurrent: number;
+  dailyBuilds: number;
+  admin: boolean;
+}
+
+interface KeyUsage {
+  day: string;
+  buildsToday: number;
+  totalBuilds: number;
+  lastUsedAt: number | null;
+}
+
+interface KeyFileEntry {
+  key: string;
+  name?: string;
+  max_concurrent?: number;
+  daily_builds?: number;
+  admin?: boolean;
+}
+
+export class QuotaError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "daily",
+    readonly retryAfter: number,
+  ) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+function toApiKey(entry: KeyFileEntry, index: number): ApiKey {
+  return {
+    key: entry.key,
+    name: entry.name || `key-${index + 1}`,
+    maxConcurrent: entry.max_concurrent ?? DEFAULT_MAX_CONCURRENT,
+    dailyBuilds: entry.daily_builds ?? DEFAULT_DAILY_BUILDS,
+    admin: entry.admin ?? false,
+  };
+}
+
+function loadKeys(): Map<string, ApiKey> {
+  const entries: KeyFileEntry[] = (process.env.API_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => ({ key }));
+
+  if (process.env.API_KEYS_FILE) {
+    const data = JSON.parse(readFileSync(process.env.API_KEYS_FILE, "utf-8"));
+    entries.push(...((Array.isArray(data) ? data : data.keys) ?? []));
+  }
+  if (process.env.ADMIN_API_KEY) {
+    entries.push({
+      key: process.env.ADMIN_API_KEY,
+      name: "admin",
+      admin: true,
+    });
+  }
+
+  return new Map(
+    entries.filter((e) => e.key).map((e, i) => [e.key, toApiKey(e, i)]),
+  );
+}
+
+const keys = loadKeys();
+const usage = new Map<string, KeyUsage>();
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function secondsUntilTomorrow() {
+  const now = new Date();
+  const tomorrow = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1,
+  );
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+}
+
+function getUsage(apiKey: ApiKey): KeyUsage {
+  let entry = usage.get(apiKey.name);
+  if (!entry) {
+    entry = {
+      day: today(),
+      buildsToday: 0,
+      totalBuilds: 0,
+      lastUsedAt: null,
+    };
+    usage.set(apiKey.name, entry);
+  }
+  if (entry.day !== today()) {
+    entry.day = today();
+    entry.buildsToday = 0;
+  }
+  return entry;
+}
+
+export function isAuthEnabled() {
+  return keys.size > 0;
+}
+
+export function findApiKey(key: string | undefined): ApiKey | null {
+  return key ? (keys.get(key) ?? null) : null;
+}
+
+export function getKeyLimit(apiKey: ApiKey | null): KeyLimit | null {
+  return apiKey
+    ? { key: apiKey.name, maxConcurrent: apiKey.maxConcurrent }
+    : null;
+}
+
+/**
+ * Counts a build against the key's daily quota. Concurrency is not checked
+ * here: the compile queue holds a key's extra builds until one finishes.
+ */
+export function chargeBuildQuota(apiKey: ApiKey | null) {
+  if (!apiKey) return;
+  const entry = getUsage(apiKey);
+  if (entry.buildsToday >= apiKey.dailyBuilds) {
+    throw new QuotaError(
+      "Daily build quota exceeded",
+      "daily",
+      secondsUntilTomorrow(),
+    );
+  }
+  entry.buildsToday++;
+  entry.totalBuilds++;
+  entry.lastUsedAt = Date.now();
+}
+
+export function getUsageReport() {
+  return [...keys.values()].map((apiKey) => {
+    const entry = getUsage(apiKey);
+    return {
+      name: apiKey.name,
+      admin: apiKey.admin,
+      active: getActiveForKey(apiKey.name),
+      max_concurrent: apiKey.maxConcurrent,
+      builds_today: entry.buildsToday,
+      daily_builds: apiKey.dailyBuilds,
+      total_builds: entry.totalBuilds,
+      last_used_at: entry.lastUsedAt,
+    };
+  });
+}
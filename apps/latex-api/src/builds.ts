@@ -0,0 +1,194 @@
+import { EventEmitter } from "node:events";
+import { randomUUID } from "node:crypto";
+import {
+  compile,
+  describeArtifact,
+  type Artifact,
+  type CompileError,
+  type CompileRequest,
+} from "./compile";
+import type { Diagnostic } from "./log-parser";
+import type { SyncTexData } from "./synctex";
+import { recordQueueError } from "./metrics";
+import { getQueuePosition, QueueError } from "./queue";
+
+const BUILD_TTL_MS = 10 * 60 * 1000;
+const MAX_BUILD_BYTES =
+  parseInt(process.env.MAX_BUILD_CACHE_MB || "512", 10) * 1024 * 1024;
+// Rough in-memory cost of one parsed SyncTeX box object.
+const SYNCTEX_BOX_BYTES = 120;
+
+export type BuildStatus = "queued" | "running" | "success" | "failure";
+
+export interface Build {
+  id: string;
+  clientId: string;
+  owner: string | null;
+  enqueuedAt: number;
+  status: BuildStatus;
+  createdAt: number;
+  finishedAt: number | null;
+  log: string;
+  pdf: Buffer<ArrayBuffer> | null;
+  fileName: string | null;
+  tools: string[];
+  diagnostics: Diagnostic[];
+  synctex: SyncTexData | null;
+  artifacts: Artifact[];
+  renders: Map<string, Buffer<ArrayBuffer>>;
+  failure: CompileError | null;
+  lastUsedAt: number;
+}
+
+export interface BuildListener {
+  onLog: (chunk: string) => void;
+  onDone: (build: Build) => void;
+}
+
+const builds = new Map<string, Build>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+/** Looks up a build for the API key that started it; other keys see nothing. */
+export function getBuild(id: string, owner: string | null): Build | null {
+  const build = builds.get(id);
+  if (!build || build.owner !== owner) return null;
+  build.lastUsedAt = Date.now();
+  return build;
+}
+
+function estimateSize(build: Build) {
+  let bytes = build.log.length + (build.pdf?.byteLength ?? 0);
+  for (const artifact of build.artifacts) bytes += artifact.content.byteLength;
+  for (const render of build.renders.values()) bytes += render.byteLength;
+  return bytes + (build.synctex?.boxes.length ?? 0) * SYNCTEX_BOX_BYTES;
+}
+
+/**
+ * Drops the least recently used finished builds once their outputs together
+ * exceed the cache budget, ahead of their TTL.
+ */
+export function trimBuilds() {
+  const finished = [...builds.values()]
+    .filter((b) => b.finishedAt !== null)
+    .map((build) => ({ build, size: estimateSize(build) }))
+    .sort((a, b) => a.build.lastUsedAt - b.build.lastUsedAt);
+  let total = finished.reduce((sum, { size }) => sum + size, 0);
+  for (const { build, size } of finished) {
+    if (total <= MAX_BUILD_BYTES) break;
+    builds.delete(build.id);
+    total -= size;
+  }
+}
+
+export function subscribeBuild(id: string, listener: BuildListener) {
+  events.on(`log:${id}`, listener.onLog);
+  events.on(`done:${id}`, listener.onDone);
+  return () => {
+    events.off(`log:${id}`, listener.onLog);
+    events.off(`done:${id}`, listener.onDone);
+  };
+}
+
+export function createBuild(
+  clientId: string,
+  enqueuedAt: number,
+  owner: string | null,
+): Build {
+  const build: Build = {
+    id: randomUUID(),
+    clientId,
+    owner,
+    enqueuedAt,
+    status: "queued",
+    createdAt: Date.now(),
+    finishedAt: null,
+    log: "",
+    pdf: null,
+    fileName: null,
+    tools: [],
+    diagnostics: [],
+    synctex: null,
+    artifacts: [],
+    renders: new Map(),
+    failure: null,
+    lastUsedAt: Date.now(),
+  };
+  builds.set(build.id, build);
+  return build;
+}
+
+export function getBuildQueuePosition(build: Build) {
+  return build.status === "queued"
+    ? getQueuePosition(build.clientId, build.enqueuedAt)
+    : 0;
+}
+
+export function runBuild(
+  build: Build,
+  request: CompileRequest,
+  ready: Promise<() => void>,
+): Promise<void> {
+  let release: (() => void) | null = null;
+
+  const finish = () => {
+    release?.();
+    build.finishedAt = Date.now();
+    build.lastUsedAt = build.finishedAt;
+    events.emit(`done:${build.id}`, build);
+    trimBuilds();
+    setTimeout(() => builds.delete(build.id), BUILD_TTL_MS).unref();
+  };
+
+  return ready
+    .then((releaseSlot) => {
+      release = releaseSlot;
+      build.status = "running";
+      return compile(request, (chunk) => {
+        build.log += chunk;
+        events.emit(`log:${build.id}`, chunk);
+      });
+    })
+    .then((result) => {
+      if (result.ok) {
+        build.status = "success";
+        build.pdf = result.pdf;
+        build.fileName = result.fileName;
+        build.tools = result.tools;
+        build.diagnostics = result.diagnostics;
+        build.synctex = result.synctex;
+        build.artifacts = result.artifacts;
+      } else {
+        build.status = "failure";
+        build.failure = result.body;
+        build.tools = result.body.tools ?? [];
+        build.diagnostics = result.body.diagnostics ?? [];
+      }
+    })
+    .catch((error) => {
+      if (error instanceof QueueError) recordQueueError(error);
+      build.status = "failure";
+      build.failure = {
+        error: error instanceof Error ? error.message : "Compilation failed",
+      };
+    })
+    .finally(finish);
+}
+
+export function serializeBuild(build: Build) {
+  return {
+    id: build.id,
+    status: build.status,
+    ...(build.status === "queued"
+      ? { queue_position: getBuildQueuePosition(build) }
+      : {}),
+    created_at: new Date(build.createdAt).toISOString(),
+    finished_at: build.finishedAt
+      ? new Date(build.finishedAt).toISOString()
+      : null,
+    tools: build.tools,
+    diagnostics: build.diagnostics,
+    artifacts: build.artifacts.map(describeArtifact),
+    ...(build.failure ?? {}),
+  };
+}
@@ -0,0 +1,306 @@
+import { mkdir, rm, writeFile, readFile } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import { createHash, randomUUID } from "node:crypto";
+import { observeCompile, type CompileOutcome } from "./metrics";
+import { runPipeline } from "./pipeline";
+import { parseLatexLog, type Diagnostic } from "./log-parser";
+import { parseSyncTex, type SyncTexData } from "./synctex";
+import type { SandboxLimit } from "./sandbox";
+import {
+  getMissingResources,
+  withWorkspace,
+  type Workspace,
+} from "./workspaces";
+
+export const ARTIFACT_TYPES = ["log", "aux", "bbl", "blg", "synctex.gz"];
+
+export interface Resource {
+  path?: string;
+  content?: string;
+  file?: string;
+  main?: boolean;
+  hash?: string;
+}
+
+export interface CompileRequest {
+  compiler?: string;
+  project_id?: string;
+  outputs?: string[];
+  resources: Resource[];
+}
+
+export interface Artifact {
+  name: string;
+  type: string;
+  content: Buffer<ArrayBuffer>;
+}
+
+export interface CompileError {
+  error: string;
+  log_files?: Record<string, string>;
+  tools?: string[];
+  diagnostics?: Diagnostic[];
+  missing?: string[];
+  limit?: SandboxLimit;
+}
+
+export type CompileResult =
+  | {
+      ok: true;
+      pdf: Buffer<ArrayBuffer>;
+      fileName: string;
+      tools: string[];
+      diagnostics: Diagnostic[];
+      synctex: SyncTexData | null;
+      artifacts: Artifact[];
+    }
+  | { ok: false; status: 400 | 409 | 422 | 500; body: CompileError };
+
+function sanitizePath(workDir: string, filePath: string): string | null {
+  if (filePath.includes("..")) return null;
+  const normalized = resolve(workDir, filePath);
+  if (!normalized.startsWith(`${workDir}/`) && normalized !== workDir) {
+    return null;
+  }
+  return normalized;
+}
+
+export async function writeSources(
+  workDir: string,
+  resources: Resource[],
+): Promise<string | null> {
+  for (const resource of resources) {
+    if (!resource.path || resource.content === undefined) continue;
+    const fullPath = sanitizePath(workDir, resource.path);
+    if (!fullPath) return null;
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, resource.content, "utf-8");
+  }
+  const mainResource = resources.find((r) => r.main) || resources[0];
+  return mainResource?.path || "main.tex";
+}
+
+function isCached(resource: Resource) {
+  return (
+    resource.content === undefined &&
+    resource.file === undefined &&
+    resource.hash !== undefined
+  );
+}
+
+// The client's hash is only trusted for resources it sends without content;
+// anything uploaded is hashed here so the cache cannot be given a wrong hash.
+function hashResource(resource: Resource) {
+  const value = resource.file ?? resource.content;
+  if (value === undefined) return resource.hash ?? "";
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export function describeArtifact(artifact: Artifact) {
+  return {
+    name: artifact.name,
+    type: artifact.type,
+    size: artifact.content.byteLength,
+  };
+}
+
+export function findCacheMisses(request: CompileRequest): string[] {
+  if (!request.project_id) return [];
+  return getMissingResources(
+    request.project_id,
+    request.resources.filter(isCached),
+  );
+}
+
+export async function compile(
+  request: CompileRequest,
+  onOutput?: (chunk: string) => void,
+): Promise<CompileResult> {
+  const startedAt = performance.now();
+  let outcome: CompileOutcome = "failure";
+  try {
+    const result = await compileRequest(request, onOutput);
+    if (result.ok) outcome = "success";
+    else if (result.body.limit === "timeout") outcome = "timeout";
+    return result;
+  } finally {
+    observeCompile(
+      getCompilerCommand(request.compiler),
+      outcome,
+      (performance.now() - startedAt) / 1000,
+    );
+  }
+}
+
+function getCompilerCommand(compiler = "pdflatex") {
+  return compiler === "xelatex"
+    ? "xelatex"
+    : compiler === "lualatex"
+      ? "lualatex"
+      : "pdflatex";
+}
+
+async function compileRequest(
+  request: CompileRequest,
+  onOutput?: (chunk: string) => void,
+): Promise<CompileResult> {
+  if (request.project_id) {
+    return withWorkspace(request.project_id, (workspace) =>
+      compileIn(workspace.dir, request, onOutput, workspace),
+    );
+  }
+
+  const workDir = join(tmpdir(), `latex-${randomUUID()}`);
+  await mkdir(workDir, { recursive: true });
+  try {
+    return await compileIn(workDir, request, onOutput);
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+async function compileIn(
+  workDir: string,
+  request: CompileRequest,
+  onOutput?: (chunk: string) => void,
+  workspace?: Workspace,
+): Promise<CompileResult> {
+  const { compiler = "pdflatex", resources } = request;
+
+  const mainResource = resources.find((r) => r.main) || resources[0];
+  const mainPath = mainResource.path || "main.tex";
+  const mainFileName = basename(mainPath).replace(/\.tex$/, "");
+  const outputs = (request.outputs ?? []).map((o) => o.replace(/^\./, ""));
+
+  const unknownOutput = outputs.find((o) => !ARTIFACT_TYPES.includes(o));
+  if (unknownOutput) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: `Unknown output type: ${unknownOutput}` },
+    };
+  }
+
+  if (workspace) {
+    const missing = findCacheMisses(request);
+    if (missing.length > 0) {
+      return {
+        ok: false,
+        status: 409,
+        body: { error: "Resource cache miss", missing },
+      };
+    }
+  }
+
+  const requestedPaths = new Set<string>();
+
+  for (const resource of resources) {
+    const filePath =
+      resource.path || (resource.main ? "main.tex" : `file-${randomUUID()}`);
+    const fullPath = sanitizePath(workDir, filePath);
+
+    if (!fullPath) {
+      return { ok: false, status: 400, body: { error: "Invalid path" } };
+    }
+
+    requestedPaths.add(filePath);
+    if (workspace && isCached(resource)) continue;
+
+    const parentDir = fullPath.substring(0, fullPath.lastIndexOf("/"));
+    if (parentDir && parentDir !== workDir) {
+      await mkdir(parentDir, { recursive: true });
+    }
+
+    if (resource.file) {
+      const buffer = Buffer.from(resource.file, "base64");
+      await writeFile(fullPath, buffer);
+    } else if (resource.content !== undefined) {
+      await writeFile(fullPath, resource.content, "utf-8");
+    }
+    workspace?.files.set(filePath, hashResource(resource));
+  }
+
+  if (workspace) {
+    for (const path of workspace.files.keys()) {
+      if (requestedPaths.has(path)) continue;
+      workspace.files.delete(path);
+      await rm(join(workDir, path), { force: true });
+    }
+  }
+
+  const pdfPath = join(workDir, `${mainFileName}.pdf`);
+  await rm(pdfPath, { force: true });
+
+  const compilerCmd = getCompilerCommand(compiler);
+
+  const pipeline = await runPipeline({
+    workDir,
+    compiler: compilerCmd,
+    mainPath,
+    jobName: mainFileName,
+    state: workspace?.pipeline,
+    onOutput,
+  });
+  const { tools } = pipeline;
+
+  if (!pipeline.ok) {
+    return {
+      ok: false,
+      status: 422,
+      body: { error: pipeline.error, tools, limit: pipeline.limit },
+    };
+  }
+
+  const logPath = join(workDir, `${mainFileName}.log`);
+
+  let logContent = "";
+  try {
+    logContent = await readFile(logPath, "utf-8");
+  } catch {}
+  const diagnostics = parseLatexLog(logContent, workDir);
+
+  let synctex: SyncTexData | null = null;
+  try {
+    const synctexPath = join(workDir, `${mainFileName}.synctex.gz`);
+    synctex = parseSyncTex(await readFile(synctexPath), workDir);
+  } catch {}
+
+  const artifacts: Artifact[] = [];
+  for (const type of new Set(outputs)) {
+    const name = `${mainFileName}.${type}`;
+    try {
+      artifacts.push({
+        name,
+        type,
+        content: await readFile(join(workDir, name)),
+      });
+    } catch {}
+  }
+
+  try {
+    const pdf = await readFile(pdfPath);
+    return {
+      ok: true,
+      pdf,
+      fileName: `${mainFileName}.pdf`,
+      tools,
+      diagnostics,
+      synctex,
+      artifacts,
+    };
+  } catch {
+    return {
+      ok: false,
+      status: 500,
+      body: {
+        error: "Compilation failed",
+        log_files: {
+          "__main_document__.log": logContent,
+        },
+        tools,
+        diagnostics,
+      },
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { CompileError, CompileRequest, Resource } from "./compile";
+import { runCommand } from "./pipeline";
+import { describeLimit, detectLimit } from "./sandbox";
+
+export interface DiffRequest {
+  path?: string;
+  old?: string;
+  new?: string;
+  compiler?: string;
+  resources?: Resource[];
+}
+
+export type DiffResult =
+  | { ok: true; request: CompileRequest }
+  | { ok: false; status: 400 | 422; body: CompileError };
+
+export async function runLatexdiff(
+  oldContent: string,
+  newContent: string,
+): Promise<{ ok: true; diff: string } | { ok: false; error: string }> {
+  const workDir = await mkdtemp(join(tmpdir(), "latex-diff-"));
+  try {
+    await writeFile(join(workDir, "old.tex"), oldContent, "utf-8");
+    await writeFile(join(workDir, "new.tex"), newContent, "utf-8");
+
+    const outcome = await runCommand(workDir, [
+      "sh",
+      "-c",
+      "latexdiff old.tex new.tex > diff.tex",
+    ]);
+    const limit = detectLimit(outcome);
+    if (limit) return { ok: false, error: describeLimit(limit, "latexdiff") };
+
+    const diff = await readFile(join(workDir, "diff.tex"), "utf-8").catch(
+      () => "",
+    );
+    if (outcome.exitCode !== 0 || !diff) {
+      return {
+        ok: false,
+        error: outcome.outputTail.trim() || "latexdiff failed",
+      };
+    }
+    return { ok: true, diff };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export async function createDiffRequest(
+  request: DiffRequest,
+): Promise<DiffResult> {
+  const resources = request.resources ?? [];
+  if (typeof request.old !== "string" || typeof request.new !== "string") {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "Both old and new content are required" },
+    };
+  }
+
+  const mainPath =
+    (resources.find((r) => r.main) || resources[0])?.path || "main.tex";
+  const path = request.path || mainPath;
+
+  const result = await runLatexdiff(request.old, request.new);
+  if (!result.ok) {
+    return { ok: false, status: 422, body: { error: result.error } };
+  }
+
+  const others = resources.filter((r) => (r.path || "main.tex") !== path);
+  return {
+    ok: true,
+    request: {
+      compiler: request.compiler,
+      resources: [
+        ...others,
+        {
+          path,
+          content: result.diff,
+          main: path === mainPath,
+        },
+      ],
+    },
+  };
+}
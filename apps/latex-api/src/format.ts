@@ -0,0 +1,77 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { CompileError } from "./compile";
+import { runCommand } from "./pipeline";
+import { describeLimit, detectLimit } from "./sandbox";
+
+const MAX_FORMAT_LENGTH = 1024 * 1024;
+const MAX_CONFIG_LENGTH = 64 * 1024;
+
+export interface FormatRequest {
+  content?: string;
+  config?: string;
+}
+
+export type FormatResult =
+  | { ok: true; content: string }
+  | { ok: false; status: 400 | 422; body: CompileError };
+
+export async function formatSource(
+  request: FormatRequest,
+): Promise<FormatResult> {
+  const { content, config } = request;
+  if (typeof content !== "string") {
+    return { ok: false, status: 400, body: { error: "No content provided" } };
+  }
+  if (content.length > MAX_FORMAT_LENGTH) {
+    return { ok: false, status: 400, body: { error: "Content too large" } };
+  }
+  if (config && config.length > MAX_CONFIG_LENGTH) {
+    return { ok: false, status: 400, body: { error: "Config too large" } };
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "latex-format-"));
+  try {
+    await writeFile(join(workDir, "input.tex"), content, "utf-8");
+    const cmd = ["latexindent", "-s", "-c=./", "-o=output.tex"];
+    if (config?.trim()) {
+      await writeFile(join(workDir, "settings.yaml"), config, "utf-8");
+      cmd.push("-l=settings.yaml");
+    }
+    cmd.push("input.tex");
+
+    const outcome = await runCommand(workDir, cmd);
+    const limit = detectLimit(outcome);
+    if (limit) {
+      return {
+        ok: false,
+        status: 422,
+        body: { error: describeLimit(limit, "latexindent"), limit },
+      };
+    }
+
+    const formatted = await readFile(
+      join(workDir, "output.tex"),
+      "utf-8",
+    ).catch(() => null);
+    if (outcome.exitCode !== 0 || formatted === null) {
+      const log = await readFile(join(workDir, "indent.log"), "utf-8").catch(
+        () => "",
+      );
+      return {
+        ok: false,
+        status: 422,
+        body: {
+          error:
+            outcome.outputTail.trim() ||
+            log.trim().split("\n").slice(-10).join("\n") ||
+            "latexindent failed",
+        },
+      };
+    }
+    return { ok: true, content: formatted };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,63 @@
+import { execFile } from "node:child_process";
+import { statfs } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { getActiveCompilations, getQueueStatus } from "./queue";
+
+const ENGINES = ["pdflatex", "xelatex", "lualatex"];
+const PROBE_TIMEOUT_MS = 5000;
+
+interface TexInfo {
+  version: string | null;
+  distribution: string | null;
+  engines: string[];
+}
+
+let texInfo: Promise<TexInfo> | null = null;
+
+function probeVersion(command: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      command,
+      ["--version"],
+      { timeout: PROBE_TIMEOUT_MS },
+      (error, stdout) => {
+        resolve(error ? null : stdout.split("\n")[0].trim());
+      },
+    );
+  });
+}
+
+async function detectTex(): Promise<TexInfo> {
+  const versions = await Promise.all(ENGINES.map(probeVersion));
+  const version = versions.find((v) => v !== null) ?? null;
+  return {
+    version,
+    distribution: version?.match(/\(([^)]*TeX[^)]*)\)/)?.[1] ?? null,
+    engines: ENGINES.filter((_, i) => versions[i] !== null),
+  };
+}
+
+async function getFreeDisk(path: string) {
+  try {
+    const stats = await statfs(path);
+    return stats.bavail * stats.bsize;
+  } catch {
+    return null;
+  }
+}
+
+export async function getHealth() {
+  texInfo ??= detectTex();
+  const tex = await texInfo;
+  const tmp = tmpdir();
+
+  return {
+    status: tex.engines.length > 0 ? "ok" : "degraded",
+    service: "latex-api",
+    tex: { version: tex.version, distribution: tex.distribution },
+    engines: tex.engines,
+    tmp: { path: tmp, free_bytes: await getFreeDisk(tmp) },
+    active_compilations: getActiveCompilations(),
+    queue: getQueueStatus(),
+  };
+}
@@ -1,213 +1,583 @@
 import { serve } from "@hono/node-server";
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
 import { bodyLimit } from "hono/body-limit";
-import { mkdir, rm, writeFile, readFile, access } from "node:fs/promises";
-import { join, resolve } from "node:path";
-import { tmpdir } from "node:os";
-import { randomUUID } from "node:crypto";
-import { spawn } from "node:child_process";
+import { streamSSE } from "hono/streaming";
+import {
+  compile,
+  describeArtifact,
+  findCacheMisses,
+  type CompileError,
+  type CompileRequest,
+  type Resource,
+} from "./compile";
+import {
+  createBuild,
+  getBuild,
+  getBuildQueuePosition,
+  runBuild,
+  serializeBuild,
+  subscribeBuild,
+  trimBuilds,
+} from "./builds";
+import {
+  enqueueCompilation,
+  enqueueTool,
+  getQueueStatus,
+  QueueError,
+} from "./queue";
+import { getMissingResources } from "./workspaces";
+import { createDiffRequest, type DiffRequest, type DiffResult } from "./diff";
+import {
+  chargeBuildQuota,
+  findApiKey,
+  getKeyLimit,
+  getUsageReport,
+  isAuthEnabled,
+  QuotaError,
+} from "./auth";
+import { formatSource, type FormatRequest } from "./format";
+import { getHealth } from "./health";
+import { lintSources, type LintRequest } from "./lint";
+import {
+  recordQueueError,
+  recordQuotaRejection,
+  renderMetrics,
+} from "./metrics";
+import { checkAvailability, type AvailabilityRequest } from "./packages";
+import { renderPdf, type RenderRequest } from "./render";
+import { getSandboxConfig } from "./sandbox";
+import { renderSnippet, type SnippetRequest } from "./snippets";
+import { forwardSearch, inverseSearch } from "./synctex";
+import { countWords } from "./texcount";
+
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const PUBLIC_PATHS = new Set(["/", "/health", "/metrics"]);
 
 const app = new Hono();
 
-const MAX_CONCURRENT = 3;
-const COMPILE_TIMEOUT_MS = 30000;
+function getClientId(c: Context) {
+  const forwarded = c.req.header("x-forwarded-for")?.split(",")[0].trim();
+  return c.req.header("x-client-id") || forwarded || "anonymous";
+}
 
-let activeCompilations = 0;
+function getApiKey(c: Context) {
+  return findApiKey(c.req.header("x-api-key"));
+}
 
-function sanitizePath(workDir: string, filePath: string): string | null {
-  if (filePath.includes("..")) return null;
-  const normalized = resolve(workDir, filePath);
-  if (!normalized.startsWith(`${workDir}/`) && normalized !== workDir) {
-    return null;
-  }
-  return normalized;
+function getOwner(c: Context) {
+  return getApiKey(c)?.name ?? null;
 }
 
-app.use("/*", cors());
-app.use("/*", bodyLimit({ maxSize: 10 * 1024 * 1024 }));
+// Workspaces are cached per API key, so one key cannot read or overwrite
+// another key's files by reusing its project id.
+function scopeProjectId(c: Context, projectId: string) {
+  return `${getApiKey(c)?.name ?? "anonymous"}:${projectId}`;
+}
 
-interface Resource {
-  path?: string;
-  content?: string;
-  file?: string;
-  main?: boolean;
+function scopeRequest<T extends { project_id?: string }>(c: Context, body: T) {
+  return body.project_id
+    ? { ...body, project_id: scopeProjectId(c, body.project_id) }
+    : body;
 }
 
-interface CompileRequest {
-  compiler?: string;
-  resources: Resource[];
+function queueHeaders(position: number) {
+  return {
+    "X-Queue-Position": position.toString(),
+    "X-Queue-Depth": getQueueStatus().depth.toString(),
+  };
+}
+
+function queueErrorResponse(c: Context, error: unknown) {
+  if (!(error instanceof QueueError)) throw error;
+  recordQueueError(error);
+  return c.json({ error: error.message } satisfies CompileError, 503, {
+    "Retry-After": "5",
+  });
+}
+
+function quotaErrorResponse(c: Context, error: unknown) {
+  if (!(error instanceof QuotaError)) throw error;
+  recordQuotaRejection(error.reason);
+  return c.json({ error: error.message } satisfies CompileError, 429, {
+    "Retry-After": error.retryAfter.toString(),
+  });
+}
+
+// Builds count against the key's daily quota and wait for a compile slot.
+async function acquireBuildSlot(
+  c: Context,
+): Promise<{ release: () => void; position: number } | Response> {
+  const apiKey = getApiKey(c);
+  try {
+    chargeBuildQuota(apiKey);
+  } catch (error) {
+    return quotaErrorResponse(c, error);
+  }
+
+  try {
+    const ticket = enqueueCompilation(
+      getClientId(c),
+      c.req.raw.signal,
+      getKeyLimit(apiKey),
+    );
+    return { position: ticket.position, release: await ticket.ready };
+  } catch (error) {
+    return queueErrorResponse(c, error);
+  }
+}
+
+// Lint, word counts, formatting, snippets, diffs, page renders and package
+// lookups run in the separate tool pool and are not counted as builds.
+async function acquireToolSlot(c: Context): Promise<(() => void) | Response> {
+  try {
+    return await enqueueTool(getClientId(c), c.req.raw.signal).ready;
+  } catch (error) {
+    return queueErrorResponse(c, error);
+  }
 }
 
-interface CompileError {
-  error: string;
-  log_files?: Record<string, string>;
+function startBuild(c: Context, request: CompileRequest) {
+  const apiKey = getApiKey(c);
+  try {
+    chargeBuildQuota(apiKey);
+  } catch (error) {
+    return quotaErrorResponse(c, error);
+  }
+
+  const clientId = getClientId(c);
+  let ticket: ReturnType<typeof enqueueCompilation>;
+  try {
+    ticket = enqueueCompilation(clientId, undefined, getKeyLimit(apiKey));
+  } catch (error) {
+    return queueErrorResponse(c, error);
+  }
+
+  const build = createBuild(clientId, ticket.enqueuedAt, getOwner(c));
+  void runBuild(build, request, ticket.ready);
+
+  return c.json(serializeBuild(build), 202, queueHeaders(ticket.position));
 }
 
+app.use("/*", cors({ origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : "*" }));
+app.use("/*", async (c, next) => {
+  if (!isAuthEnabled() || PUBLIC_PATHS.has(c.req.path)) return next();
+  if (!getApiKey(c)) {
+    return c.json({ error: "Invalid API key" } satisfies CompileError, 401);
+  }
+  return next();
+});
+app.use("/*", bodyLimit({ maxSize: 10 * 1024 * 1024 }));
+
 app.get("/", (c) => {
-  return c.json({ status: "ok", service: "latex-api" });
+  return c.json({
+    status: "ok",
+    service: "latex-api",
+    sandbox: getSandboxConfig(),
+  });
+});
+
+app.get("/health", async (c) => {
+  const health = await getHealth();
+  return c.json(health, health.status === "ok" ? 200 : 503);
+});
+
+app.get("/metrics", (c) => {
+  return c.text(renderMetrics(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
 });
 
 app.post("/builds/sync", async (c) => {
-  if (activeCompilations >= MAX_CONCURRENT) {
+  const body = scopeRequest(c, await c.req.json<CompileRequest>());
+
+  if (!body.resources || body.resources.length === 0) {
     return c.json(
-      { error: "Server busy, try again later" } satisfies CompileError,
-      503,
+      { error: "No resources provided" } satisfies CompileError,
+      400,
     );
   }
 
-  const body = await c.req.json<CompileRequest>();
-  const { compiler = "pdflatex", resources } = body;
+  const slot = await acquireBuildSlot(c);
+  if (slot instanceof Response) return slot;
+  const { position } = slot;
 
-  if (!resources || resources.length === 0) {
+  try {
+    const result = await compile(body);
+    if (!result.ok) {
+      return c.json(result.body, result.status, queueHeaders(position));
+    }
+    if (body.outputs?.length) {
+      return c.json(
+        {
+          file_name: result.fileName,
+          tools: result.tools,
+          diagnostics: result.diagnostics,
+          pdf: result.pdf.toString("base64"),
+          artifacts: result.artifacts.map((artifact) => ({
+            ...describeArtifact(artifact),
+            content: artifact.content.toString("base64"),
+          })),
+        },
+        200,
+        queueHeaders(position),
+      );
+    }
+    return new Response(result.pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename=${result.fileName}`,
+        "X-Build-Tools": result.tools.join(","),
+        ...queueHeaders(position),
+      },
+    });
+  } finally {
+    slot.release();
+  }
+});
+
+app.post("/builds", async (c) => {
+  const body = scopeRequest(c, await c.req.json<CompileRequest>());
+
+  if (!body.resources || body.resources.length === 0) {
     return c.json(
       { error: "No resources provided" } satisfies CompileError,
       400,
     );
   }
 
-  const mainResource = resources.find((r) => r.main) || resources[0];
-  const mainPath = mainResource.path || "main.tex";
-  const mainFileName = mainPath.replace(/\.tex$/, "");
+  const missing = findCacheMisses(body);
+  if (missing.length > 0) {
+    return c.json(
+      { error: "Resource cache miss", missing } satisfies CompileError,
+      409,
+    );
+  }
+
+  return startBuild(c, body);
+});
+
+app.post("/diffs", async (c) => {
+  const body = await c.req.json<DiffRequest>();
 
-  const workDir = join(tmpdir(), `latex-${randomUUID()}`);
-  await mkdir(workDir, { recursive: true });
+  if (!body.resources || body.resources.length === 0) {
+    return c.json(
+      { error: "No resources provided" } satisfies CompileError,
+      400,
+    );
+  }
+
+  // latexdiff runs in the tool pool and gives its slot back before the
+  // marked-up document is queued as an ordinary build.
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  let result: DiffResult;
+  try {
+    result = await createDiffRequest(body);
+  } finally {
+    release();
+  }
+  if (!result.ok) {
+    return c.json(result.body, result.status);
+  }
+
+  return startBuild(c, result.request);
+});
+
+app.post("/snippets/render", async (c) => {
+  const body = await c.req.json<SnippetRequest>();
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
 
-  activeCompilations++;
   try {
-    const hasBib = resources.some((r) => r.path?.endsWith(".bib"));
-
-    for (const resource of resources) {
-      const filePath =
-        resource.path || (resource.main ? "main.tex" : `file-${randomUUID()}`);
-      const fullPath = sanitizePath(workDir, filePath);
-
-      if (!fullPath) {
-        return c.json({ error: "Invalid path" } satisfies CompileError, 400);
-      }
-
-      const parentDir = fullPath.substring(0, fullPath.lastIndexOf("/"));
-      if (parentDir && parentDir !== workDir) {
-        await mkdir(parentDir, { recursive: true });
-      }
-
-      if (resource.file) {
-        const buffer = Buffer.from(resource.file, "base64");
-        await writeFile(fullPath, buffer);
-      } else if (resource.content) {
-        await writeFile(fullPath, resource.content, "utf-8");
-      }
+    const result = await renderSnippet(body);
+    if (!result.ok) {
+      return c.json(result.body, result.status);
     }
+    return c.json({
+      format: result.format,
+      content: result.content.toString("base64"),
+    });
+  } finally {
+    release();
+  }
+});
 
-    const compilerCmd =
-      compiler === "xelatex"
-        ? "xelatex"
-        : compiler === "lualatex"
-          ? "lualatex"
-          : "pdflatex";
-
-    const runWithTimeout = (
-      cmd: string[],
-    ): Promise<{ exitCode: number; timedOut: boolean }> => {
-      return new Promise((resolve) => {
-        const [command, ...args] = cmd;
-        const proc = spawn(command, args, {
-          cwd: workDir,
-          stdio: ["ignore", "pipe", "pipe"],
-        });
-        let timedOut = false;
-        const timeout = setTimeout(() => {
-          timedOut = true;
-          proc.kill();
-        }, COMPILE_TIMEOUT_MS);
-        proc.on("close", (code) => {
-          clearTimeout(timeout);
-          resolve({ exitCode: code ?? 1, timedOut });
-        });
-        proc.on("error", () => {
-          clearTimeout(timeout);
-          resolve({ exitCode: 1, timedOut: false });
-        });
-      });
-    };
+app.post("/texcount", async (c) => {
+  const body = await c.req.json<{ resources?: Resource[] }>();
 
-    const latexCmd = [compilerCmd, "-interaction=nonstopmode", mainPath];
-
-    if (hasBib) {
-      let result = await runWithTimeout(latexCmd);
-      if (result.timedOut) {
-        return c.json(
-          { error: "Compilation timed out" } satisfies CompileError,
-          500,
-        );
-      }
-
-      const auxPath = join(workDir, `${mainFileName}.aux`);
-      const auxExists = await access(auxPath)
-        .then(() => true)
-        .catch(() => false);
-      if (auxExists) {
-        result = await runWithTimeout(["bibtex", mainFileName]);
-        if (result.timedOut) {
-          return c.json(
-            { error: "BibTeX timed out" } satisfies CompileError,
-            500,
-          );
-        }
-      }
-
-      for (let i = 0; i < 2; i++) {
-        result = await runWithTimeout(latexCmd);
-        if (result.timedOut) {
-          return c.json(
-            { error: "Compilation timed out" } satisfies CompileError,
-            500,
-          );
-        }
-      }
-    } else {
-      for (let i = 0; i < 2; i++) {
-        const result = await runWithTimeout(latexCmd);
-        if (result.timedOut) {
-          return c.json(
-            { error: "Compilation timed out" } satisfies CompileError,
-            500,
-          );
-        }
-      }
+  if (!body.resources || body.resources.length === 0) {
+    return c.json(
+      { error: "No resources provided" } satisfies CompileError,
+      400,
+    );
+  }
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  try {
+    const result = await countWords(body.resources);
+    if (!result.ok) {
+      return c.json(result.body, result.status);
+    }
+    return c.json({ total: result.total, files: result.files });
+  } finally {
+    release();
+  }
+});
+
+app.post("/lint", async (c) => {
+  const body = await c.req.json<LintRequest>();
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  try {
+    const result = await lintSources(body);
+    if (!result.ok) {
+      return c.json(result.body, result.status);
     }
+    return c.json({ warnings: result.warnings });
+  } finally {
+    release();
+  }
+});
+
+app.post("/format", async (c) => {
+  const body = await c.req.json<FormatRequest>();
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  try {
+    const result = await formatSource(body);
+    if (!result.ok) {
+      return c.json(result.body, result.status);
+    }
+    return c.json({ content: result.content });
+  } finally {
+    release();
+  }
+});
+
+app.post("/packages/check", async (c) => {
+  const body = await c.req.json<AvailabilityRequest>();
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  try {
+    const result = await checkAvailability(body);
+    if (!result.ok) {
+      return c.json(
+        { error: result.error } satisfies CompileError,
+        result.status,
+      );
+    }
+    return c.json(result.report);
+  } finally {
+    release();
+  }
+});
+
+app.post("/workspaces/:projectId/check", async (c) => {
+  const body = await c.req.json<{
+    resources?: Array<{ path?: string; hash?: string }>;
+  }>();
+  return c.json({
+    missing: getMissingResources(
+      scopeProjectId(c, c.req.param("projectId")),
+      body.resources ?? [],
+    ),
+  });
+});
+
+app.get("/queue", (c) => {
+  return c.json(getQueueStatus());
+});
+
+app.get("/admin/usage", (c) => {
+  if (!getApiKey(c)?.admin) {
+    return c.json({ error: "Admin key required" } satisfies CompileError, 403);
+  }
+  return c.json({ auth_enabled: isAuthEnabled(), keys: getUsageReport() });
+});
+
+app.get("/builds/:id", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build) {
+    return c.json({ error: "Build not found" } satisfies CompileError, 404);
+  }
+  return c.json(
+    serializeBuild(build),
+    200,
+    queueHeaders(getBuildQueuePosition(build)),
+  );
+});
 
-    const pdfPath = join(workDir, `${mainFileName}.pdf`);
-    const logPath = join(workDir, `${mainFileName}.log`);
+app.get("/builds/:id/log", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build) {
+    return c.json({ error: "Build not found" } satisfies CompileError, 404);
+  }
 
-    let logContent = "";
-    try {
-      logContent = await readFile(logPath, "utf-8");
-    } catch {}
+  return streamSSE(c, async (stream) => {
+    // Subscribe before the first write so that chunks emitted while the
+    // backlog is being sent are queued behind it instead of dropped.
+    let writes = Promise.resolve();
+    const send = (event: string, data: string) => {
+      writes = writes.then(() => stream.writeSSE({ event, data }));
+      return writes;
+    };
 
-    try {
-      const pdfBuffer = await readFile(pdfPath);
-      return new Response(pdfBuffer, {
-        headers: {
-          "Content-Type": "application/pdf",
-          "Content-Disposition": `inline; filename=${mainFileName}.pdf`,
+    const finished = new Promise<void>((resolve) => {
+      if (build.finishedAt !== null) return resolve();
+      const unsubscribe = subscribeBuild(build.id, {
+        onLog: (chunk) => {
+          void send("log", chunk);
         },
+        onDone: () => {
+          unsubscribe();
+          resolve();
+        },
+      });
+      stream.onAbort(() => {
+        unsubscribe();
+        resolve();
       });
-    } catch {
+    });
+
+    if (build.log) void send("log", build.log);
+    await finished;
+    await send("end", JSON.stringify({ status: build.status }));
+  });
+});
+
+app.get("/builds/:id/output.pdf", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build) {
+    return c.json({ error: "Build not found" } satisfies CompileError, 404);
+  }
+  if (build.finishedAt === null) {
+    return c.json({ error: "Build not finished" } satisfies CompileError, 409);
+  }
+  if (!build.pdf) {
+    return c.json({ error: "No output" } satisfies CompileError, 404);
+  }
+  return new Response(build.pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename=${build.fileName}`,
+    },
+  });
+});
+
+app.post("/builds/:id/render", async (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build) {
+    return c.json({ error: "Build not found" } satisfies CompileError, 404);
+  }
+  if (!build.pdf) {
+    return c.json({ error: "No output" } satisfies CompileError, 409);
+  }
+  const body = await c.req.json<RenderRequest>().catch(() => ({}));
+
+  const release = await acquireToolSlot(c);
+  if (release instanceof Response) return release;
+
+  try {
+    const result = await renderPdf(build.pdf, body, build.renders);
+    trimBuilds();
+    if (!result.ok) {
       return c.json(
-        {
-          error: "Compilation failed",
-          log_files: {
-            "__main_document__.log": logContent,
-          },
-        } satisfies CompileError,
-        500,
+        { error: result.error } satisfies CompileError,
+        result.status,
       );
     }
+    return c.json({
+      format: result.format,
+      dpi: result.dpi,
+      page_count: result.pageCount,
+      pages: result.pages.map((p) => ({
+        page: p.page,
+        content: p.content.toString("base64"),
+      })),
+    });
   } finally {
-    activeCompilations--;
-    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    release();
+  }
+});
+
+app.get("/builds/:id/artifacts/:name", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  const artifact = build?.artifacts.find((a) => a.name === c.req.param("name"));
+  if (!artifact) {
+    return c.json({ error: "Artifact not found" } satisfies CompileError, 404);
+  }
+  return new Response(artifact.content, {
+    headers: {
+      "Content-Type":
+        artifact.type === "synctex.gz"
+          ? "application/gzip"
+          : "text/plain; charset=utf-8",
+      "Content-Disposition": `attachment; filename=${artifact.name}`,
+    },
+  });
+});
+
+app.get("/builds/:id/synctex", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build?.synctex) {
+    return c.json({ error: "No SyncTeX data" } satisfies CompileError, 404);
+  }
+  return c.json(build.synctex);
+});
+
+app.get("/builds/:id/synctex/forward", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build?.synctex) {
+    return c.json({ error: "No SyncTeX data" } satisfies CompileError, 404);
+  }
+  const file = c.req.query("file");
+  const line = Number(c.req.query("line"));
+  if (!file || !Number.isFinite(line)) {
+    return c.json(
+      { error: "Missing file or line" } satisfies CompileError,
+      400,
+    );
+  }
+  const rect = forwardSearch(build.synctex, file, line);
+  if (!rect) {
+    return c.json({ error: "No match" } satisfies CompileError, 404);
+  }
+  return c.json(rect);
+});
+
+app.get("/builds/:id/synctex/inverse", (c) => {
+  const build = getBuild(c.req.param("id"), getOwner(c));
+  if (!build?.synctex) {
+    return c.json({ error: "No SyncTeX data" } satisfies CompileError, 404);
+  }
+  const page = Number(c.req.query("page"));
+  const x = Number(c.req.query("x"));
+  const y = Number(c.req.query("y"));
+  if (![page, x, y].every(Number.isFinite)) {
+    return c.json(
+      { error: "Missing page or coordinates" } satisfies CompileError,
+      400,
+    );
+  }
+  const location = inverseSearch(build.synctex, page, x, y);
+  if (!location) {
+    return c.json({ error: "No match" } satisfies CompileError, 404);
   }
+  return c.json(location);
 });
 
 const port = parseInt(process.env.PORT || "3001", 10);
@@ -0,0 +1,118 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { writeSources, type CompileError, type Resource } from "./compile";
+import { runCommand } from "./pipeline";
+import { describeLimit, detectLimit } from "./sandbox";
+
+const FIELD_SEPARATOR = "\x1f";
+const OUTPUT_FORMAT = `${["%f", "%l", "%c", "%d", "%n", "%k", "%s", "%m"].join(FIELD_SEPARATOR)}\\n`;
+
+export interface LintRequest {
+  resources?: Resource[];
+  suppress?: number[];
+}
+
+export interface LintWarning {
+  file: string;
+  line: number;
+  column: number;
+  length: number;
+  number: number;
+  severity: "error" | "warning" | "info";
+  message: string;
+  fix?: { replacement: string };
+}
+
+export type LintResult =
+  | { ok: true; warnings: LintWarning[] }
+  | { ok: false; status: 400 | 422; body: CompileError };
+
+const isWhitespace = (text: string) => /^\s+$/.test(text);
+
+const FIXES: Record<number, (text: string) => string | null> = {
+  2: (text) => (isWhitespace(text) ? "~" : null),
+  11: (text) => (text === "..." ? "\\ldots{}" : null),
+  12: (text) => (isWhitespace(text) ? "\\ " : null),
+  24: (text) => (isWhitespace(text) ? "" : null),
+  26: (text) => (isWhitespace(text) ? "" : null),
+  39: (text) => (isWhitespace(text) ? " " : null),
+};
+
+function toSeverity(kind: string): LintWarning["severity"] {
+  const normalized = kind.toLowerCase();
+  if (normalized.startsWith("error")) return "error";
+  if (normalized.startsWith("message")) return "info";
+  return "warning";
+}
+
+export function parseChktex(output: string): LintWarning[] {
+  return output.split("\n").flatMap((line) => {
+    const fields = line.split(FIELD_SEPARATOR);
+    if (fields.length !== 8) return [];
+    const [file, lineNumber, column, length, number, kind, text, message] =
+      fields;
+    const replacement = FIXES[Number(number)]?.(text) ?? null;
+    return {
+      file: file.replace(/^\.\//, ""),
+      line: Number(lineNumber),
+      column: Number(column),
+      length: Number(length),
+      number: Number(number),
+      severity: toSeverity(kind),
+      message: message.trim(),
+      ...(replacement === null ? {} : { fix: { replacement } }),
+    };
+  });
+}
+
+export async function lintSources(request: LintRequest): Promise<LintResult> {
+  const resources = request.resources ?? [];
+  const texPaths = resources
+    .filter((r) => r.content !== undefined && r.path?.endsWith(".tex"))
+    .map((r) => r.path as string);
+  if (texPaths.length === 0) {
+    return { ok: false, status: 400, body: { error: "No files to lint" } };
+  }
+
+  const suppress = (request.suppress ?? []).filter(Number.isInteger);
+  const workDir = await mkdtemp(join(tmpdir(), "latex-lint-"));
+  try {
+    if (!(await writeSources(workDir, resources))) {
+      return { ok: false, status: 400, body: { error: "Invalid path" } };
+    }
+
+    let output = "";
+    const outcome = await runCommand(
+      workDir,
+      [
+        "chktex",
+        "-q",
+        "-I0",
+        "-f",
+        OUTPUT_FORMAT,
+        ...suppress.map((n) => `-n${n}`),
+        ...texPaths,
+      ],
+      (chunk) => {
+        output += chunk;
+      },
+    );
+    const limit = detectLimit(outcome);
+    if (limit) {
+      return {
+        ok: false,
+        status: 422,
+        body: { error: describeLimit(limit, "chktex"), limit },
+      };
+    }
+
+    const warnings = parseChktex(output);
+    if (outcome.exitCode !== 0 && warnings.length === 0 && output.trim()) {
+      return { ok: false, status: 422, body: { error: output.trim() } };
+    }
+    return { ok: true, warnings };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
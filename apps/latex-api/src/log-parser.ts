@@ -0,0 +1,147 @@
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  file: string | null;
+  line: number | null;
+  message: string;
+  context: string | null;
+}
+
+const LOG_LINE_WIDTH = 79;
+const FILE_OPEN = /^\(([^\s()]+\.[A-Za-z0-9]+)/;
+const ERROR_LINE = /^l\.(\d+)\s?(.*)$/;
+const FILE_LINE_ERROR = /^(\.?\/?[^:\s]+\.[A-Za-z]+):(\d+): (.*)$/;
+const WARNING_START = /^(LaTeX|Package (\S+)|Class (\S+)) Warning: (.*)$/;
+const INPUT_LINE = /on input line (\d+)/;
+const BOX_WARNING =
+  /^((?:Over|Under)full \\[hv]box .*?)(?: in paragraph at lines (\d+)--\d+| detected at line (\d+)| has occurred while \\output is active)?$/;
+
+function unwrapLines(log: string): string[] {
+  const lines: string[] = [];
+  let pending = "";
+  for (const raw of log.replace(/\r\n/g, "\n").split("\n")) {
+    pending += raw;
+    if (raw.length === LOG_LINE_WIDTH) continue;
+    lines.push(pending);
+    pending = "";
+  }
+  if (pending) lines.push(pending);
+  return lines;
+}
+
+function normalizeFile(file: string, workDir?: string): string {
+  let normalized = file;
+  if (workDir && normalized.startsWith(`${workDir}/`)) {
+    normalized = normalized.slice(workDir.length + 1);
+  }
+  return normalized.replace(/^\.\//, "");
+}
+
+export function parseLatexLog(log: string, workDir?: string): Diagnostic[] {
+  const lines = unwrapLines(log);
+  const diagnostics: Diagnostic[] = [];
+  const fileStack: string[] = [];
+  const currentFile = () => fileStack.at(-1) ?? null;
+
+  const trackFiles = (line: string) => {
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === "(") {
+        const match = line.slice(i).match(FILE_OPEN);
+        if (match) {
+          fileStack.push(normalizeFile(match[1], workDir));
+          i += match[0].length - 1;
+        } else {
+          fileStack.push("");
+        }
+      } else if (char === ")") {
+        fileStack.pop();
+      }
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("! ")) {
+      const message = line.slice(2).trim();
+      let lineNumber: number | null = null;
+      let context: string | null = null;
+      for (let j = i + 1; j < Math.min(lines.length, i + 20); j++) {
+        const match = lines[j].match(ERROR_LINE);
+        if (match) {
+          lineNumber = parseInt(match[1], 10);
+          context = [match[2], lines[j + 1]?.trim() ?? ""]
+            .filter(Boolean)
+            .join(" ")
+            .replace(/\^\^M$/, "");
+          i = j + 1;
+          break;
+        }
+      }
+      diagnostics.push({
+        severity: "error",
+        file: currentFile() || null,
+        line: lineNumber,
+        message,
+        context,
+      });
+      continue;
+    }
+
+    const fileLineError = line.match(FILE_LINE_ERROR);
+    if (fileLineError) {
+      diagnostics.push({
+        severity: "error",
+        file: normalizeFile(fileLineError[1], workDir),
+        line: parseInt(fileLineError[2], 10),
+        message: fileLineError[3],
+        context: null,
+      });
+      continue;
+    }
+
+    const warning = line.match(WARNING_START);
+    if (warning) {
+      const prefix = warning[2] ?? warning[3];
+      let message = warning[4];
+      while (
+        i + 1 < lines.length &&
+        lines[i + 1].trim() &&
+        (prefix
+          ? lines[i + 1].startsWith(`(${prefix})`)
+          : /^\s/.test(lines[i + 1]))
+      ) {
+        i++;
+        message += ` ${lines[i].replace(`(${prefix})`, "").trim()}`;
+      }
+      const inputLine = message.match(INPUT_LINE);
+      diagnostics.push({
+        severity: "warning",
+        file: currentFile() || null,
+        line: inputLine ? parseInt(inputLine[1], 10) : null,
+        message: message.trim(),
+        context: warning[1],
+      });
+      continue;
+    }
+
+    const box = line.match(BOX_WARNING);
+    if (box) {
+      const lineNumber = box[2] ?? box[3];
+      diagnostics.push({
+        severity: "info",
+        file: currentFile() || null,
+        line: lineNumber ? parseInt(lineNumber, 10) : null,
+        message: box[1],
+        context: lines[i + 1]?.trim() || null,
+      });
+      continue;
+    }
+
+    trackFiles(line);
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,137 @@
+import { getQueueStatus, type QueueError } from "./queue";
+
+const DURATION_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+export type CompileOutcome = "success" | "failure" | "timeout";
+
+interface Histogram {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const durations = new Map<string, Histogram>();
+const compiles = new Map<string, number>();
+const queueRejections = new Map<string, number>();
+const quotaRejections = new Map<string, number>();
+let queueAborts = 0;
+
+function increment(counter: Map<string, number>, key: string) {
+  counter.set(key, (counter.get(key) ?? 0) + 1);
+}
+
+function labels(values: Record<string, string>) {
+  const pairs = Object.entries(values).map(
+    ([name, value]) => `${name}="${value.replace(/["\\\n]/g, "\\$&")}"`,
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+export function observeCompile(
+  compiler: string,
+  outcome: CompileOutcome,
+  seconds: number,
+) {
+  let histogram = durations.get(compiler);
+  if (!histogram) {
+    histogram = {
+      buckets: DURATION_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    durations.set(compiler, histogram);
+  }
+  DURATION_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) histogram.buckets[i]++;
+  });
+  histogram.sum += seconds;
+  histogram.count++;
+  increment(compiles, `${compiler}\0${outcome}`);
+}
+
+// A client that hangs up while waiting was not turned away, so aborts are
+// counted apart from the 503 responses.
+export function recordQueueError(error: QueueError) {
+  if (error.reason === "aborted") {
+    queueAborts++;
+  } else {
+    increment(queueRejections, error.reason);
+  }
+}
+
+export function recordQuotaRejection(reason: string) {
+  increment(quotaRejections, reason);
+}
+
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  const queue = getQueueStatus();
+
+  lines.push(
+    "# HELP latex_api_compile_duration_seconds Time spent compiling, by compiler.",
+    "# TYPE latex_api_compile_duration_seconds histogram",
+  );
+  for (const [compiler, histogram] of durations) {
+    DURATION_BUCKETS.forEach((bound, i) => {
+      lines.push(
+        `latex_api_compile_duration_seconds_bucket${labels({ compiler, le: String(bound) })} ${histogram.buckets[i]}`,
+      );
+    });
+    lines.push(
+      `latex_api_compile_duration_seconds_bucket${labels({ compiler, le: "+Inf" })} ${histogram.count}`,
+      `latex_api_compile_duration_seconds_sum${labels({ compiler })} ${histogram.sum}`,
+      `latex_api_compile_duration_seconds_count${labels({ compiler })} ${histogram.count}`,
+    );
+  }
+
+  lines.push(
+    "# HELP latex_api_compiles_total Finished compilations, by compiler and outcome.",
+    "# TYPE latex_api_compiles_total counter",
+  );
+  for (const [key, value] of compiles) {
+    const [compiler, outcome] = key.split("\0");
+    lines.push(
+      `latex_api_compiles_total${labels({ compiler, outcome })} ${value}`,
+    );
+  }
+
+  lines.push(
+    "# HELP latex_api_queue_rejections_total Requests turned away by the build or tool queue with 503, by reason.",
+    "# TYPE latex_api_queue_rejections_total counter",
+  );
+  for (const [reason, value] of queueRejections) {
+    lines.push(
+      `latex_api_queue_rejections_total${labels({ reason })} ${value}`,
+    );
+  }
+
+  lines.push(
+    "# HELP latex_api_queue_aborts_total Requests whose client disconnected while waiting in a queue.",
+    "# TYPE latex_api_queue_aborts_total counter",
+    `latex_api_queue_aborts_total ${queueAborts}`,
+    "# HELP latex_api_quota_rejections_total Builds refused with 429 because the API key is over its quota, by reason.",
+    "# TYPE latex_api_quota_rejections_total counter",
+  );
+  for (const [reason, value] of quotaRejections) {
+    lines.push(
+      `latex_api_quota_rejections_total${labels({ reason })} ${value}`,
+    );
+  }
+
+  lines.push(
+    "# HELP latex_api_active_compilations Compilations currently running.",
+    "# TYPE latex_api_active_compilations gauge",
+    `latex_api_active_compilations ${queue.active}`,
+    "# HELP latex_api_max_concurrent_compilations Configured compile concurrency.",
+    "# TYPE latex_api_max_concurrent_compilations gauge",
+    `latex_api_max_concurrent_compilations ${queue.max_concurrent}`,
+    "# HELP latex_api_queue_depth Requests waiting in the compile queue.",
+    "# TYPE latex_api_queue_depth gauge",
+    `latex_api_queue_depth ${queue.depth}`,
+    "# HELP latex_api_queue_max_depth Configured compile queue capacity.",
+    "# TYPE latex_api_queue_max_depth gauge",
+    `latex_api_queue_max_depth ${queue.max_depth}`,
+  );
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,109 @@
+import { execFile } from "node:child_process";
+import { basename } from "node:path";
+
+const MAX_NAMES = 200;
+const LOOKUP_TIMEOUT_MS = 10000;
+const NAME_PATTERN = /^[A-Za-z0-9@_+][A-Za-z0-9@._+-]*$/;
+const FONT_EXTENSIONS = ["otf", "ttf", "tfm", "pfb"];
+
+export type TexFileKind = "packages" | "classes" | "fonts";
+
+export type AvailabilityRequest = Partial<Record<TexFileKind, string[]>>;
+
+export type AvailabilityReport = Record<TexFileKind, Record<string, boolean>>;
+
+export type AvailabilityResult =
+  | { ok: true; report: AvailabilityReport }
+  | { ok: false; status: 400 | 500; error: string };
+
+const cache = new Map<string, boolean>();
+
+function candidates(kind: TexFileKind, name: string): string[] {
+  if (kind === "packages") return [`${name}.sty`];
+  if (kind === "classes") return [`${name}.cls`];
+  return /\.[a-z0-9]+$/i.test(name)
+    ? [name]
+    : FONT_EXTENSIONS.map((ext) => `${name}.${ext}`);
+}
+
+function kpsewhich(files: string[]): Promise<Set<string> | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "kpsewhich",
+      files,
+      { timeout: LOOKUP_TIMEOUT_MS },
+      (error, stdout) => {
+        // kpsewhich exits with 1 when any file is missing; only a spawn
+        // failure or timeout means the lookup did not run.
+        if (error && typeof error.code !== "number") {
+          resolve(null);
+          return;
+        }
+        resolve(
+          new Set(
+            stdout
+              .split("\n")
+              .filter(Boolean)
+              .map((path) => basename(path.trim())),
+          ),
+        );
+      },
+    );
+  });
+}
+
+export async function checkAvailability(
+  request: AvailabilityRequest,
+): Promise<AvailabilityResult> {
+  const kinds: TexFileKind[] = ["packages", "classes", "fonts"];
+  const malformed = kinds.find((kind) => {
+    const value: unknown = request?.[kind];
+    return (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((n) => typeof n === "string"))
+    );
+  });
+  if (malformed) {
+    return {
+      ok: false,
+      status: 400,
+      error: `${malformed} must be an array of strings`,
+    };
+  }
+
+  const names = kinds.flatMap((kind) =>
+    [...new Set(request?.[kind] ?? [])].map((name) => ({ kind, name })),
+  );
+
+  if (names.length > MAX_NAMES) {
+    return { ok: false, status: 400, error: "Too many names" };
+  }
+  const invalid = names.find(({ name }) => !NAME_PATTERN.test(name));
+  if (invalid) {
+    return { ok: false, status: 400, error: `Invalid name: ${invalid.name}` };
+  }
+
+  const uncached = names.filter(
+    ({ kind, name }) => !cache.has(`${kind}:${name}`),
+  );
+  if (uncached.length > 0) {
+    const found = await kpsewhich(
+      uncached.flatMap(({ kind, name }) => candidates(kind, name)),
+    );
+    if (!found) {
+      return { ok: false, status: 500, error: "kpsewhich is not available" };
+    }
+    for (const { kind, name } of uncached) {
+      cache.set(
+        `${kind}:${name}`,
+        candidates(kind, name).some((file) => found.has(file)),
+      );
+    }
+  }
+
+  const report: AvailabilityReport = { packages: {}, classes: {}, fonts: {} };
+  for (const { kind, name } of names) {
+    report[kind][name] = cache.get(`${kind}:${name}`) ?? false;
+  }
+  return { ok: true, report };
+}
@@ -0,0 +1,238 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { spawn } from "node:child_process";
+import {
+  detectLimit,
+  describeLimit,
+  latexSandboxArgs,
+  sandboxCommand,
+  sandboxEnv,
+  type CommandOutcome,
+  type SandboxLimit,
+} from "./sandbox";
+
+const COMMAND_TIMEOUT_MS = 30000;
+const MAX_LATEX_PASSES = 5;
+const OUTPUT_TAIL_LENGTH = 4096;
+
+const RERUN_PATTERNS = [
+  /Rerun to get/,
+  /Label\(s\) may have changed/,
+  /Please rerun LaTeX/,
+  /Please \(re\)run Biber/,
+  /Package rerunfilecheck Warning/,
+];
+
+export interface PipelineState {
+  toolInputs: Map<string, string>;
+}
+
+export interface PipelineOptions {
+  workDir: string;
+  compiler: string;
+  mainPath: string;
+  jobName: string;
+  state?: PipelineState;
+  onOutput?: (chunk: string) => void;
+}
+
+export type PipelineResult =
+  | { ok: true; tools: string[] }
+  | { ok: false; error: string; tools: string[]; limit: SandboxLimit };
+
+interface Tool {
+  name: string;
+  label: string;
+  detect: (files: JobFiles) => string | null;
+  command: (jobName: string) => string[];
+}
+
+interface JobFiles {
+  aux: string | null;
+  log: string | null;
+  outputs: Map<string, string | null>;
+}
+
+function hash(value: string) {
+  return createHash("sha1").update(value).digest("hex");
+}
+
+export function runCommand(
+  workDir: string,
+  cmd: string[],
+  onOutput?: (chunk: string) => void,
+): Promise<CommandOutcome> {
+  return new Promise((resolve) => {
+    const [command, ...args] = sandboxCommand(cmd);
+    const proc = spawn(command, args, {
+      cwd: workDir,
+      env: sandboxEnv(),
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let outputTail = "";
+    const handleOutput = (data: Buffer) => {
+      const chunk = data.toString();
+      outputTail = (outputTail + chunk).slice(-OUTPUT_TAIL_LENGTH);
+      onOutput?.(chunk);
+    };
+    proc.stdout.on("data", handleOutput);
+    proc.stderr.on("data", handleOutput);
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      proc.kill("SIGKILL");
+    }, COMMAND_TIMEOUT_MS);
+    proc.on("close", (code, signal) => {
+      clearTimeout(timeout);
+      resolve({ exitCode: code ?? 1, signal, timedOut, outputTail });
+    });
+    proc.on("error", () => {
+      clearTimeout(timeout);
+      onOutput?.(`${cmd[0]}: command not found\n`);
+      resolve({ exitCode: 1, signal: null, timedOut: false, outputTail: "" });
+    });
+  });
+}
+
+const TOOLS: Tool[] = [
+  {
+    name: "biber",
+    label: "Biber",
+    detect: (files) => files.outputs.get("bcf") ?? null,
+    command: (jobName) => ["biber", jobName],
+  },
+  {
+    name: "bibtex",
+    label: "BibTeX",
+    detect: (files) => {
+      if (files.outputs.get("bcf") || !files.aux?.includes("\\bibdata")) {
+        return null;
+      }
+      return files.aux
+        .split("\n")
+        .filter((line) => /^\\(citation|bibdata|bibstyle)\{/.test(line))
+        .join("\n");
+    },
+    command: (jobName) => ["bibtex", jobName],
+  },
+  {
+    name: "makeglossaries",
+    label: "makeglossaries",
+    detect: (files) => {
+      if (!files.aux?.includes("\\@newglossary")) return null;
+      return `${files.outputs.get("glo") ?? ""}${files.outputs.get("acn") ?? ""}`;
+    },
+    command: (jobName) => ["makeglossaries", jobName],
+  },
+  {
+    name: "makeindex",
+    label: "MakeIndex",
+    detect: (files) => files.outputs.get("idx") ?? null,
+    command: (jobName) => ["makeindex", `${jobName}.idx`],
+  },
+  {
+    name: "nomencl",
+    label: "Nomenclature",
+    detect: (files) => files.outputs.get("nlo") ?? null,
+    command: (jobName) => [
+      "makeindex",
+      `${jobName}.nlo`,
+      "-s",
+      "nomencl.ist",
+      "-o",
+      `${jobName}.nls`,
+    ],
+  },
+];
+
+async function readJobFiles(
+  workDir: string,
+  jobName: string,
+): Promise<JobFiles> {
+  const read = (ext: string) =>
+    readFile(join(workDir, `${jobName}.${ext}`), "utf-8").catch(() => null);
+  const outputs = new Map<string, string | null>();
+  for (const ext of ["bcf", "glo", "acn", "idx", "nlo"]) {
+    outputs.set(ext, await read(ext));
+  }
+  return { aux: await read("aux"), log: await read("log"), outputs };
+}
+
+export async function runPipeline(
+  options: PipelineOptions,
+): Promise<PipelineResult> {
+  const { workDir, compiler, mainPath, jobName, onOutput } = options;
+  const tools: string[] = [];
+  const toolInputs = options.state?.toolInputs ?? new Map<string, string>();
+  const existingAux = await readFile(
+    join(workDir, `${jobName}.aux`),
+    "utf-8",
+  ).catch(() => null);
+  let previousAux = existingAux === null ? null : hash(existingAux);
+
+  const latexCmd = [
+    compiler,
+    "-interaction=nonstopmode",
+    "-synctex=1",
+    ...latexSandboxArgs(),
+    mainPath,
+  ];
+
+  for (let pass = 1; pass <= MAX_LATEX_PASSES; pass++) {
+    tools.push(compiler);
+    const result = await runCommand(workDir, latexCmd, onOutput);
+    const limit = detectLimit(result);
+    if (limit) {
+      return {
+        ok: false,
+        error: describeLimit(limit, "Compilation"),
+        tools,
+        limit,
+      };
+    }
+
+    const files = await readJobFiles(workDir, jobName);
+
+    let ranTool = false;
+    for (const tool of TOOLS) {
+      const input = tool.detect(files);
+      if (input === null) continue;
+      const inputHash = hash(input);
+      if (toolInputs.get(tool.name) === inputHash) continue;
+      toolInputs.delete(tool.name);
+
+      tools.push(tool.name);
+      ranTool = true;
+      const toolResult = await runCommand(
+        workDir,
+        tool.command(jobName),
+        onOutput,
+      );
+      const toolLimit = detectLimit(toolResult);
+      if (toolLimit) {
+        return {
+          ok: false,
+          error: describeLimit(toolLimit, tool.label),
+          tools,
+          limit: toolLimit,
+        };
+      }
+      // Only a successful run is remembered, so a failed tool runs again on
+      // the next build even if its input has not changed.
+      if (toolResult.exitCode === 0) toolInputs.set(tool.name, inputHash);
+    }
+
+    const auxHash = files.aux === null ? null : hash(files.aux);
+    const auxChanged = auxHash !== previousAux;
+    previousAux = auxHash;
+
+    const logAsksRerun = RERUN_PATTERNS.some((pattern) =>
+      pattern.test(files.log ?? ""),
+    );
+
+    if (!ranTool && !auxChanged && !logAsksRerun) break;
+  }
+
+  return { ok: true, tools };
+}
@@ -0,0 +1,236 @@
+const MAX_CONCURRENT = parseInt(process.env.MAX_CONCURRENT || "3", 10);
+const QUEUE_MAX_DEPTH = parseInt(process.env.QUEUE_MAX_DEPTH || "20", 10);
+const QUEUE_TIMEOUT_MS = parseInt(process.env.QUEUE_TIMEOUT_MS || "60000", 10);
+const TOOL_MAX_CONCURRENT = parseInt(
+  process.env.TOOL_MAX_CONCURRENT || "2",
+  10,
+);
+const TOOL_QUEUE_MAX_DEPTH = parseInt(
+  process.env.TOOL_QUEUE_MAX_DEPTH || "50",
+  10,
+);
+
+export class QueueError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "full" | "timeout" | "aborted",
+  ) {
+    super(message);
+    this.name = "QueueError";
+  }
+}
+
+/** Caps how many of one API key's jobs run at once; waiting jobs do not count. */
+export interface KeyLimit {
+  key: string;
+  maxConcurrent: number;
+}
+
+interface Waiter {
+  clientId: string;
+  enqueuedAt: number;
+  keyLimit: KeyLimit | null;
+  resolve: (release: () => void) => void;
+  reject: (error: QueueError) => void;
+}
+
+export interface QueueTicket {
+  position: number;
+  enqueuedAt: number;
+  ready: Promise<() => void>;
+}
+
+interface QueueOptions {
+  name: string;
+  maxConcurrent: number;
+  maxDepth: number;
+  timeoutMs: number;
+}
+
+function createQueue({
+  name,
+  maxConcurrent,
+  maxDepth,
+  timeoutMs,
+}: QueueOptions) {
+  const waiters: Waiter[] = [];
+  const activeByClient = new Map<string, number>();
+  const activeByKey = new Map<string, number>();
+  let active = 0;
+
+  function isKeyBusy(limit: KeyLimit | null) {
+    return (
+      limit !== null && (activeByKey.get(limit.key) ?? 0) >= limit.maxConcurrent
+    );
+  }
+
+  // Round-robin between clients: a client's n-th waiting job ranks behind the
+  // n-th job of every client with fewer jobs in flight.
+  function orderedWaiters(): Waiter[] {
+    const seen = new Map<string, number>();
+    return waiters
+      .map((waiter) => {
+        const earlier = seen.get(waiter.clientId) ?? 0;
+        seen.set(waiter.clientId, earlier + 1);
+        const rank = (activeByClient.get(waiter.clientId) ?? 0) + earlier;
+        return { waiter, rank };
+      })
+      .sort(
+        (a, b) => a.rank - b.rank || a.waiter.enqueuedAt - b.waiter.enqueuedAt,
+      )
+      .map(({ waiter }) => waiter);
+  }
+
+  function removeWaiter(waiter: Waiter) {
+    const index = waiters.indexOf(waiter);
+    if (index !== -1) waiters.splice(index, 1);
+  }
+
+  function start(clientId: string, keyLimit: KeyLimit | null) {
+    active++;
+    activeByClient.set(clientId, (activeByClient.get(clientId) ?? 0) + 1);
+    if (keyLimit) {
+      activeByKey.set(keyLimit.key, (activeByKey.get(keyLimit.key) ?? 0) + 1);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      active--;
+      decrement(activeByClient, clientId);
+      if (keyLimit) decrement(activeByKey, keyLimit.key);
+      dispatch();
+    };
+  }
+
+  // A key at its limit keeps its jobs waiting without holding up other keys.
+  function dispatch() {
+    while (active < maxConcurrent) {
+      const next = orderedWaiters().find((w) => !isKeyBusy(w.keyLimit));
+      if (!next) return;
+      removeWaiter(next);
+      next.resolve(start(next.clientId, next.keyLimit));
+    }
+  }
+
+  function getPosition(clientId: string, enqueuedAt: number) {
+    const index = orderedWaiters().findIndex(
+      (w) => w.clientId === clientId && w.enqueuedAt === enqueuedAt,
+    );
+    return index === -1 ? 0 : index + 1;
+  }
+
+  function enqueue(
+    clientId: string,
+    signal?: AbortSignal,
+    keyLimit: KeyLimit | null = null,
+  ): QueueTicket {
+    const enqueuedAt = performance.now();
+
+    if (
+      active < maxConcurrent &&
+      waiters.length === 0 &&
+      !isKeyBusy(keyLimit)
+    ) {
+      return {
+        position: 0,
+        enqueuedAt,
+        ready: Promise.resolve(start(clientId, keyLimit)),
+      };
+    }
+
+    if (waiters.length >= maxDepth) {
+      throw new QueueError(`${name} queue is full, try again later`, "full");
+    }
+
+    const ready = new Promise<() => void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new QueueError("Request aborted", "aborted"));
+        return;
+      }
+
+      const waiter: Waiter = {
+        clientId,
+        enqueuedAt,
+        keyLimit,
+        resolve: (release) => {
+          cleanup();
+          resolve(release);
+        },
+        reject: (error) => {
+          cleanup();
+          removeWaiter(waiter);
+          reject(error);
+        },
+      };
+
+      const timeout = setTimeout(() => {
+        waiter.reject(
+          new QueueError(`Timed out waiting in ${name} queue`, "timeout"),
+        );
+      }, timeoutMs);
+      const onAbort = () => {
+        waiter.reject(new QueueError("Request aborted", "aborted"));
+      };
+      const cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      waiters.push(waiter);
+      dispatch();
+    });
+
+    return { position: getPosition(clientId, enqueuedAt), enqueuedAt, ready };
+  }
+
+  return {
+    enqueue,
+    getPosition,
+    getActive: () => active,
+    getActiveForKey: (key: string) => activeByKey.get(key) ?? 0,
+    getStatus: () => ({
+      active,
+      max_concurrent: maxConcurrent,
+      depth: waiters.length,
+      max_depth: maxDepth,
+      timeout_ms: timeoutMs,
+    }),
+  };
+}
+
+function decrement(counter: Map<string, number>, key: string) {
+  const remaining = (counter.get(key) ?? 1) - 1;
+  if (remaining > 0) {
+    counter.set(key, remaining);
+  } else {
+    counter.delete(key);
+  }
+}
+
+const compileQueue = createQueue({
+  name: "compile",
+  maxConcurrent: MAX_CONCURRENT,
+  maxDepth: QUEUE_MAX_DEPTH,
+  timeoutMs: QUEUE_TIMEOUT_MS,
+});
+
+// Lint, word counts, formatting, snippets and page renders run while the user
+// types, so they get a small pool of their own and never hold up builds.
+const toolQueue = createQueue({
+  name: "tool",
+  maxConcurrent: TOOL_MAX_CONCURRENT,
+  maxDepth: TOOL_QUEUE_MAX_DEPTH,
+  timeoutMs: QUEUE_TIMEOUT_MS,
+});
+
+export const enqueueCompilation = compileQueue.enqueue;
+export const getQueuePosition = compileQueue.getPosition;
+export const getActiveCompilations = compileQueue.getActive;
+export const getActiveForKey = compileQueue.getActiveForKey;
+export const getQueueStatus = compileQueue.getStatus;
+
+export const enqueueTool = toolQueue.enqueue;
+export const getToolQueueStatus = toolQueue.getStatus;
@@ -0,0 +1,138 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { runCommand } from "./pipeline";
+
+const MAX_RENDER_DPI = parseInt(process.env.MAX_RENDER_DPI || "300", 10);
+const MAX_RENDER_PAGES = parseInt(process.env.MAX_RENDER_PAGES || "50", 10);
+const DEFAULT_RENDER_DPI = 72;
+
+export type RenderFormat = "png" | "svg";
+
+export interface RenderRequest {
+  pages?: number[];
+  format?: string;
+  dpi?: number;
+}
+
+export interface RenderedPage {
+  page: number;
+  content: Buffer<ArrayBuffer>;
+}
+
+export type RenderResult =
+  | {
+      ok: true;
+      format: RenderFormat;
+      dpi: number;
+      pageCount: number;
+      pages: RenderedPage[];
+    }
+  | { ok: false; status: 400 | 500; error: string };
+
+async function countPages(workDir: string): Promise<number> {
+  let output = "";
+  await runCommand(workDir, ["pdfinfo", "input.pdf"], (chunk) => {
+    output += chunk;
+  });
+  const match = output.match(/^Pages:\s+(\d+)/m);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+async function renderPage(
+  workDir: string,
+  page: number,
+  format: RenderFormat,
+  dpi: number,
+) {
+  const range = ["-f", `${page}`, "-l", `${page}`];
+  const output = join(workDir, `page-${page}`);
+  const cmd =
+    format === "svg"
+      ? ["pdftocairo", "-svg", ...range, "input.pdf", `${output}.svg`]
+      : [
+          "pdftocairo",
+          "-png",
+          "-r",
+          `${dpi}`,
+          ...range,
+          "-singlefile",
+          "input.pdf",
+          output,
+        ];
+  const result = await runCommand(workDir, cmd);
+  if (result.exitCode !== 0) return null;
+  return readFile(`${output}.${format}`).catch(() => null);
+}
+
+/** Checks the parts of a render request that do not depend on the PDF. */
+export function validateRenderRequest(request: RenderRequest): string | null {
+  const { pages, format = "png", dpi = DEFAULT_RENDER_DPI } = request;
+  if (format !== "png" && format !== "svg") {
+    return `Unknown format: ${format}`;
+  }
+  if (!Number.isFinite(dpi) || dpi <= 0 || dpi > MAX_RENDER_DPI) {
+    return `DPI must be between 1 and ${MAX_RENDER_DPI}`;
+  }
+  if (
+    pages !== undefined &&
+    (!Array.isArray(pages) || !pages.every((p) => Number.isInteger(p)))
+  ) {
+    return "pages must be an array of page numbers";
+  }
+  return null;
+}
+
+export async function renderPdf(
+  pdf: Buffer,
+  request: RenderRequest,
+  cache: Map<string, Buffer<ArrayBuffer>>,
+): Promise<RenderResult> {
+  const error = validateRenderRequest(request);
+  if (error) return { ok: false, status: 400, error };
+  const format = (request.format ?? "png") as RenderFormat;
+  const dpi = request.dpi ?? DEFAULT_RENDER_DPI;
+
+  const workDir = join(tmpdir(), `latex-render-${randomUUID()}`);
+  await mkdir(workDir, { recursive: true });
+  try {
+    await writeFile(join(workDir, "input.pdf"), pdf);
+    const pageCount = await countPages(workDir);
+    if (pageCount === 0) {
+      return { ok: false, status: 500, error: "Could not read PDF" };
+    }
+
+    const requested =
+      request.pages ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+    const pages = [...new Set(requested)].slice(0, MAX_RENDER_PAGES);
+    const invalid = pages.find(
+      (p) => !Number.isInteger(p) || p < 1 || p > pageCount,
+    );
+    if (invalid !== undefined) {
+      return { ok: false, status: 400, error: `Invalid page: ${invalid}` };
+    }
+
+    const rendered: RenderedPage[] = [];
+    for (const page of pages) {
+      const key = `${format}:${format === "svg" ? 0 : dpi}:${page}`;
+      let content = cache.get(key) ?? null;
+      if (!content) {
+        content = await renderPage(workDir, page, format, dpi);
+        if (!content) {
+          return {
+            ok: false,
+            status: 500,
+            error: `Failed to render page ${page}`,
+          };
+        }
+        cache.set(key, content);
+      }
+      rendered.push({ page, content });
+    }
+
+    return { ok: true, format, dpi, pageCount, pages: rendered };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,90 @@
+const CPU_LIMIT_S = parseInt(process.env.COMPILE_CPU_LIMIT_S || "60", 10);
+const MEMORY_LIMIT_MB = parseInt(
+  process.env.COMPILE_MEMORY_LIMIT_MB || "1024",
+  10,
+);
+const OUTPUT_LIMIT_MB = parseInt(
+  process.env.COMPILE_OUTPUT_LIMIT_MB || "100",
+  10,
+);
+const SHELL_ESCAPE_COMMANDS = (process.env.SHELL_ESCAPE_COMMANDS || "")
+  .split(",")
+  .map((command) => command.trim())
+  .filter(Boolean);
+
+const PASSTHROUGH_ENV = ["PATH", "HOME", "LANG", "LC_ALL", "TZ", "TEXMFVAR"];
+const MEMORY_PATTERN =
+  /memory exhausted|not enough memory|out of memory|cannot allocate memory/i;
+
+export type SandboxLimit = "timeout" | "cpu" | "memory" | "output";
+
+export interface CommandOutcome {
+  exitCode: number;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  outputTail: string;
+}
+
+export function getSandboxConfig() {
+  return {
+    shell_escape: SHELL_ESCAPE_COMMANDS.length > 0 ? "restricted" : "disabled",
+    shell_escape_commands: SHELL_ESCAPE_COMMANDS,
+    cpu_limit_s: CPU_LIMIT_S,
+    memory_limit_mb: MEMORY_LIMIT_MB,
+    output_limit_mb: OUTPUT_LIMIT_MB,
+  };
+}
+
+export function latexSandboxArgs(): string[] {
+  return SHELL_ESCAPE_COMMANDS.length > 0
+    ? ["-shell-restricted"]
+    : ["-no-shell-escape"];
+}
+
+export function sandboxCommand(cmd: string[]): string[] {
+  return [
+    "prlimit",
+    `--cpu=${CPU_LIMIT_S}:${CPU_LIMIT_S + 1}`,
+    `--as=${MEMORY_LIMIT_MB * 1024 * 1024}`,
+    `--fsize=${OUTPUT_LIMIT_MB * 1024 * 1024}`,
+    "--",
+    ...cmd,
+  ];
+}
+
+export function sandboxEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of PASSTHROUGH_ENV) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  return {
+    ...env,
+    openin_any: "p",
+    openout_any: "p",
+    shell_escape: SHELL_ESCAPE_COMMANDS.length > 0 ? "p" : "f",
+    shell_escape_commands: SHELL_ESCAPE_COMMANDS.join(","),
+  };
+}
+
+export function detectLimit(outcome: CommandOutcome): SandboxLimit | null {
+  if (outcome.timedOut) return "timeout";
+  if (outcome.signal === "SIGXCPU") return "cpu";
+  if (outcome.signal === "SIGXFSZ") return "output";
+  if (outcome.exitCode !== 0 && MEMORY_PATTERN.test(outcome.outputTail)) {
+    return "memory";
+  }
+  return null;
+}
+
+export function describeLimit(limit: SandboxLimit, label: string): string {
+  switch (limit) {
+    case "timeout":
+      return `${label} timed out`;
+    case "cpu":
+      return `${label} exceeded the CPU time limit of ${CPU_LIMIT_S}s`;
+    case "memory":
+      return `${label} exceeded the memory limit of ${MEMORY_LIMIT_MB} MB`;
+    case "output":
+      return `${label} exceeded the output size limit of ${OUTPUT_LIMIT_MB} MB`;
+  }
+}
@@ -0,0 +1,115 @@
+import { createHash } from "node:crypto";
+import { compile, type CompileError } from "./compile";
+import { renderPdf, type RenderFormat, validateRenderRequest } from "./render";
+
+const SNIPPET_CACHE_SIZE = parseInt(
+  process.env.SNIPPET_CACHE_SIZE || "200",
+  10,
+);
+const MAX_SNIPPET_LENGTH = 20000;
+const DEFAULT_SNIPPET_DPI = 150;
+
+export interface SnippetRequest {
+  snippet?: string;
+  preamble?: string;
+  compiler?: string;
+  format?: string;
+  dpi?: number;
+}
+
+export type SnippetResult =
+  | { ok: true; format: RenderFormat; content: Buffer<ArrayBuffer> }
+  | { ok: false; status: 400 | 422 | 500; body: CompileError };
+
+const cache = new Map<
+  string,
+  { format: RenderFormat; content: Buffer<ArrayBuffer> }
+>();
+
+function stripPreamble(preamble: string) {
+  const end = preamble.indexOf("\\begin{document}");
+  return (end === -1 ? preamble : preamble.slice(0, end))
+    .replace(/^\s*\\documentclass(\[[^\]]*\])?\{[^}]*\}.*$/m, "")
+    .trim();
+}
+
+function buildSnippetDocument(snippet: string, preamble = "") {
+  return [
+    "\\documentclass[preview,border=2pt]{standalone}",
+    stripPreamble(preamble),
+    "\\begin{document}",
+    snippet.trim(),
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
+
+export async function renderSnippet(
+  request: SnippetRequest,
+): Promise<SnippetResult> {
+  const {
+    snippet,
+    preamble = "",
+    compiler,
+    format = "svg",
+    dpi = DEFAULT_SNIPPET_DPI,
+  } = request;
+  if (typeof snippet !== "string" || !snippet.trim()) {
+    return { ok: false, status: 400, body: { error: "No snippet provided" } };
+  }
+  if (typeof preamble !== "string") {
+    return { ok: false, status: 400, body: { error: "Invalid preamble" } };
+  }
+  if (snippet.length + preamble.length > MAX_SNIPPET_LENGTH) {
+    return { ok: false, status: 400, body: { error: "Snippet too large" } };
+  }
+  // Checked before compiling so that a bad format or DPI costs no LaTeX run.
+  const invalid = validateRenderRequest({ format, dpi });
+  if (invalid) {
+    return { ok: false, status: 400, body: { error: invalid } };
+  }
+
+  const document = buildSnippetDocument(snippet, preamble);
+  const key = createHash("sha256")
+    .update(JSON.stringify([document, compiler, format, dpi]))
+    .digest("hex");
+  const cached = cache.get(key);
+  if (cached) {
+    cache.delete(key);
+    cache.set(key, cached);
+    return { ok: true, ...cached };
+  }
+
+  const result = await compile({
+    compiler,
+    resources: [{ path: "snippet.tex", content: document, main: true }],
+  });
+  if (!result.ok) {
+    return {
+      ok: false,
+      status: result.status === 400 ? 400 : 422,
+      body: result.body,
+    };
+  }
+
+  const rendered = await renderPdf(
+    result.pdf,
+    { pages: [1], format, dpi },
+    new Map(),
+  );
+  if (!rendered.ok) {
+    return {
+      ok: false,
+      status: rendered.status,
+      body: { error: rendered.error },
+    };
+  }
+
+  const entry = { format: rendered.format, content: rendered.pages[0].content };
+  cache.set(key, entry);
+  if (cache.size > SNIPPET_CACHE_SIZE) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return { ok: true, ...entry };
+}
@@ -0,0 +1,164 @@
+import { gunzipSync } from "node:zlib";
+
+const SP_PER_BP = 65781.76;
+
+export interface SyncTexBox {
+  file: string;
+  line: number;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface SyncTexData {
+  boxes: SyncTexBox[];
+}
+
+export interface PdfRect {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const RECORD =
+  /^([([hvxkg$])(\d+),(\d+):(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+function normalizeInput(path: string, workDir: string) {
+  let normalized = path;
+  if (normalized.startsWith(`${workDir}/`)) {
+    normalized = normalized.slice(workDir.length + 1);
+  }
+  return normalized.replace(/^(\.\/)+/, "");
+}
+
+export function parseSyncTex(gzipped: Buffer, workDir: string): SyncTexData {
+  const content = gunzipSync(gzipped).toString("utf-8");
+  const inputs = new Map<string, string>();
+  const boxes: SyncTexBox[] = [];
+  let unit = 1;
+  let xOffset = 0;
+  let yOffset = 0;
+  let page = 0;
+
+  const toBp = (value: number) => (value * unit) / SP_PER_BP;
+
+  for (const line of content.split("\n")) {
+    if (line.startsWith("Input:")) {
+      const [, tag, ...rest] = line.split(":");
+      inputs.set(tag, normalizeInput(rest.join(":"), workDir));
+      continue;
+    }
+    if (line.startsWith("Unit:")) {
+      unit = Number(line.slice(5)) || 1;
+      continue;
+    }
+    if (line.startsWith("X Offset:")) {
+      xOffset = Number(line.slice(9)) || 0;
+      continue;
+    }
+    if (line.startsWith("Y Offset:")) {
+      yOffset = Number(line.slice(9)) || 0;
+      continue;
+    }
+    if (line.startsWith("{")) {
+      page = Number(line.slice(1)) || page + 1;
+      continue;
+    }
+
+    const match = line.match(RECORD);
+    if (!match || page === 0) continue;
+    const [, kind, tag, lineNumber, x, y, width, height, depth] = match;
+    const file = inputs.get(tag);
+    if (!file) continue;
+
+    const isBox = kind === "(" || kind === "[" || kind === "h" || kind === "v";
+    boxes.push({
+      file,
+      line: Number(lineNumber),
+      page,
+      x: toBp(Number(x) + xOffset),
+      y: toBp(Number(y) + yOffset),
+      width: isBox ? toBp(Number(width ?? 0)) : 0,
+      height: isBox ? toBp(Number(height ?? 0)) : 0,
+      depth: isBox ? toBp(Number(depth ?? 0)) : 0,
+    });
+  }
+
+  return { boxes };
+}
+
+export function forwardSearch(
+  data: SyncTexData,
+  file: string,
+  line: number,
+): PdfRect | null {
+  const candidates = data.boxes.filter(
+    (box) => box.file === file || box.file === `${file}.tex`,
+  );
+  if (candidates.length === 0) return null;
+
+  let bestLine = candidates[0].line;
+  for (const box of candidates) {
+    const distance = Math.abs(box.line - line);
+    const bestDistance = Math.abs(bestLine - line);
+    if (
+      distance < bestDistance ||
+      (distance === bestDistance && box.line > bestLine)
+    ) {
+      bestLine = box.line;
+    }
+  }
+
+  const matches = candidates.filter((box) => box.line === bestLine);
+  const page = matches[0].page;
+  const onPage = matches.filter((box) => box.page === page && box.width > 0);
+  if (onPage.length === 0) {
+    const point = matches[0];
+    return { page, x: point.x, y: point.y - 10, width: 0, height: 12 };
+  }
+
+  const left = Math.min(...onPage.map((box) => box.x));
+  const top = Math.min(...onPage.map((box) => box.y - box.height));
+  const right = Math.max(...onPage.map((box) => box.x + box.width));
+  const bottom = Math.max(...onPage.map((box) => box.y + box.depth));
+  return { page, x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function inverseSearch(
+  data: SyncTexData,
+  page: number,
+  x: number,
+  y: number,
+): { file: string; line: number } | null {
+  let best: SyncTexBox | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+
+  for (const box of data.boxes) {
+    if (box.page !== page) continue;
+    const top = box.y - box.height;
+    const bottom = box.y + box.depth;
+    const contains =
+      box.width > 0 &&
+      x >= box.x &&
+      x <= box.x + box.width &&
+      y >= top &&
+      y <= bottom;
+    const score = contains
+      ? box.width * (bottom - top) - 1e9
+      : Math.hypot(
+          Math.max(box.x - x, 0, x - (box.x + box.width)),
+          Math.max(top - y, 0, y - bottom),
+        );
+    if (score < bestScore) {
+      bestScore = score;
+      best = box;
+    }
+  }
+
+  return best ? { file: best.file, line: best.line } : null;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseTexcount } from "./texcount";
+
+// `texcount -inc -sub=subsection -utf8 main.tex` for a main file that
+// \input's chapters/intro.tex.
+const INCLUDE_OUTPUT = `File: main.tex
+Encoding: utf8
+Words in text: 12
+Words in headers: 2
+Words outside text (captions, etc.): 0
+Number of headers: 1
+Number of floats/tables/figures: 0
+Number of math inlines: 1
+Number of math displayed: 0
+Subcounts:
+  text+headers+captions (#headers/#floats/#inlines/#displayed)
+  3+0+0 (0/0/0/0) _top_
+  9+2+0 (1/0/1/0) Section: Overview
+
+Included file: ./chapters/intro.tex
+Encoding: utf8
+Words in text: 40
+Words in headers: 3
+Words outside text (captions, etc.): 5
+Number of headers: 2
+Number of floats/tables/figures: 1
+Number of math inlines: 2
+Number of math displayed: 1
+Subcounts:
+  text+headers+captions (#headers/#floats/#inlines/#displayed)
+  25+1+5 (1/1/2/0) Section: Introduction
+  15+2+0 (1/0/0/1) Subsection: Related work
+
+File(s) total: main.tex
+Words in text: 52
+Words in headers: 5
+Words outside text (captions, etc.): 5
+Number of headers: 3
+Number of floats/tables/figures: 1
+Number of math inlines: 3
+Number of math displayed: 1
+`;
+
+test("parseTexcount reads files included with -inc", () => {
+  const { total, files } = parseTexcount(INCLUDE_OUTPUT);
+
+  assert.deepEqual(
+    files.map((f) => f.file),
+    ["main.tex", "chapters/intro.tex"],
+  );
+  assert.equal(files[1].words_text, 40);
+  assert.equal(files[1].floats, 1);
+  assert.deepEqual(
+    files[1].sections.map(({ type, title, words_text }) => ({
+      type,
+      title,
+      words_text,
+    })),
+    [
+      { type: "section", title: "Introduction", words_text: 25 },
+      { type: "subsection", title: "Related work", words_text: 15 },
+    ],
+  );
+  assert.equal(total.words_text, 52);
+  assert.equal(total.math_inline, 3);
+});
+
+test("parseTexcount sums the files when there is no total", () => {
+  const output = INCLUDE_OUTPUT.slice(
+    0,
+    INCLUDE_OUTPUT.indexOf("File(s) total:"),
+  );
+  const { total } = parseTexcount(output);
+
+  assert.equal(total.words_text, 52);
+  assert.equal(total.words_headers, 5);
+  assert.equal(total.math_display, 1);
+});
@@ -0,0 +1,167 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { writeSources, type CompileError, type Resource } from "./compile";
+import { runCommand } from "./pipeline";
+import { describeLimit, detectLimit } from "./sandbox";
+
+export interface WordCounts {
+  words_text: number;
+  words_headers: number;
+  words_captions: number;
+  headers: number;
+  floats: number;
+  math_inline: number;
+  math_display: number;
+}
+
+export interface SectionCount extends WordCounts {
+  type: string;
+  title: string;
+}
+
+export interface FileCount extends WordCounts {
+  file: string;
+  sections: SectionCount[];
+}
+
+export type TexcountResult =
+  | { ok: true; total: WordCounts; files: FileCount[] }
+  | { ok: false; status: 400 | 422; body: CompileError };
+
+const COUNT_LABELS: Record<string, keyof WordCounts> = {
+  "Words in text": "words_text",
+  "Words in headers": "words_headers",
+  "Words outside text (captions, etc.)": "words_captions",
+  "Number of headers": "headers",
+  "Number of floats/tables/figures": "floats",
+  "Number of math inlines": "math_inline",
+  "Number of math displayed": "math_display",
+};
+
+const SUBCOUNT_PATTERN =
+  /^\s*(\d+)\+(\d+)\+(\d+)\s+\((\d+)\/(\d+)\/(\d+)\/(\d+)\)\s+(.*)$/;
+
+function emptyCounts(): WordCounts {
+  return {
+    words_text: 0,
+    words_headers: 0,
+    words_captions: 0,
+    headers: 0,
+    floats: 0,
+    math_inline: 0,
+    math_display: 0,
+  };
+}
+
+function addCounts(a: WordCounts, b: WordCounts): WordCounts {
+  const sum = emptyCounts();
+  for (const key of Object.keys(sum) as (keyof WordCounts)[]) {
+    sum[key] = a[key] + b[key];
+  }
+  return sum;
+}
+
+function parseSection(match: RegExpMatchArray): SectionCount {
+  const [, text, headerWords, captions, headers, floats, inline, display] =
+    match.map(Number);
+  const label = match[8].trim();
+  const separator = label.indexOf(": ");
+  return {
+    type: separator === -1 ? label : label.slice(0, separator).toLowerCase(),
+    title: separator === -1 ? "" : label.slice(separator + 2),
+    words_text: text,
+    words_headers: headerWords,
+    words_captions: captions,
+    headers,
+    floats,
+    math_inline: inline,
+    math_display: display,
+  };
+}
+
+export function parseTexcount(output: string) {
+  const files: FileCount[] = [];
+  let total: WordCounts | null = null;
+  let current: (WordCounts & { sections?: SectionCount[] }) | null = null;
+
+  for (const line of output.split("\n")) {
+    // With -inc, files pulled in by \input or \include follow the main file
+    // under their own "Included file:" header.
+    const header = line.match(
+      /^(File|Included file|Sum of files|File\(s\) total):\s*(.*)$/,
+    );
+    if (header) {
+      if (header[1] === "File" || header[1] === "Included file") {
+        const file: FileCount = {
+          file: header[2].trim().replace(/^\.\//, ""),
+          ...emptyCounts(),
+          sections: [],
+        };
+        files.push(file);
+        current = file;
+      } else {
+        total = emptyCounts();
+        current = total;
+      }
+      continue;
+    }
+    if (!current) continue;
+
+    const count = line.match(/^([^:]+):\s*(\d+)\s*$/);
+    const key = count && COUNT_LABELS[count[1].trim()];
+    if (count && key) {
+      current[key] = Number(count[2]);
+      continue;
+    }
+
+    const subcount = line.match(SUBCOUNT_PATTERN);
+    if (subcount && current.sections) {
+      current.sections.push(parseSection(subcount));
+    }
+  }
+
+  return {
+    total: total ?? files.reduce<WordCounts>(addCounts, emptyCounts()),
+    files,
+  };
+}
+
+export async function countWords(
+  resources: Resource[],
+): Promise<TexcountResult> {
+  const workDir = await mkdtemp(join(tmpdir(), "latex-count-"));
+  try {
+    const mainPath = await writeSources(workDir, resources);
+    if (!mainPath) {
+      return { ok: false, status: 400, body: { error: "Invalid path" } };
+    }
+
+    let output = "";
+    const outcome = await runCommand(
+      workDir,
+      ["texcount", "-inc", "-sub=subsection", "-utf8", mainPath],
+      (chunk) => {
+        output += chunk;
+      },
+    );
+    const limit = detectLimit(outcome);
+    if (limit) {
+      return {
+        ok: false,
+        status: 422,
+        body: { error: describeLimit(limit, "texcount"), limit },
+      };
+    }
+    if (outcome.exitCode !== 0) {
+      return {
+        ok: false,
+        status: 422,
+        body: { error: outcome.outputTail.trim() || "texcount failed" },
+      };
+    }
+    return { ok: true, ...parseTexcount(output) };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
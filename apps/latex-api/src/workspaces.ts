@@ -0,0 +1,94 @@
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import type { PipelineState } from "./pipeline";
+
+const WORKSPACE_TTL_MS = parseInt(
+  process.env.WORKSPACE_TTL_MS || `${30 * 60 * 1000}`,
+  10,
+);
+const MAX_WORKSPACES = parseInt(process.env.MAX_WORKSPACES || "20", 10);
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface Workspace {
+  projectId: string;
+  dir: string;
+  files: Map<string, string>;
+  pipeline: PipelineState;
+  lastUsedAt: number;
+  users: number;
+  pending: Promise<unknown>;
+}
+
+const workspaces = new Map<string, Workspace>();
+
+function evict(workspace: Workspace) {
+  workspaces.delete(workspace.projectId);
+  void rm(workspace.dir, { recursive: true, force: true }).catch(() => {});
+}
+
+function sweep() {
+  const now = Date.now();
+  for (const workspace of workspaces.values()) {
+    if (
+      workspace.users === 0 &&
+      now - workspace.lastUsedAt > WORKSPACE_TTL_MS
+    ) {
+      evict(workspace);
+    }
+  }
+
+  const idle = [...workspaces.values()]
+    .filter((w) => w.users === 0)
+    .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  while (workspaces.size > MAX_WORKSPACES && idle.length > 0) {
+    const oldest = idle.shift();
+    if (oldest) evict(oldest);
+  }
+}
+
+setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+
+export function getMissingResources(
+  projectId: string,
+  resources: Array<{ path?: string; hash?: string }>,
+): string[] {
+  const workspace = workspaces.get(projectId);
+  return resources
+    .filter((r) => r.path && workspace?.files.get(r.path) !== r.hash)
+    .map((r) => r.path as string);
+}
+
+export async function withWorkspace<T>(
+  projectId: string,
+  fn: (workspace: Workspace) => Promise<T>,
+): Promise<T> {
+  let workspace = workspaces.get(projectId);
+  if (!workspace) {
+    const dir = join(tmpdir(), `latex-ws-${randomUUID()}`);
+    workspace = {
+      projectId,
+      dir,
+      files: new Map(),
+      pipeline: { toolInputs: new Map() },
+      lastUsedAt: Date.now(),
+      users: 0,
+      pending: mkdir(dir, { recursive: true }),
+    };
+    workspaces.set(projectId, workspace);
+  }
+
+  const current = workspace;
+  current.users++;
+  const run = current.pending.then(() => fn(current));
+  current.pending = run.catch(() => {});
+
+  try {
+    return await run;
+  } finally {
+    current.users--;
+    current.lastUsedAt = Date.now();
+    sweep();
+  }
+}
@@ -1,4 +1,3 @@
-import { createOpenAI } from "@ai-sdk/openai";
 import { frontendTools } from "@assistant-ui/react-ai-sdk";
 import {
   generateText,
@@ -8,6 +7,8 @@ import {
   type ToolSet,
 } from "ai";
 import { NextResponse } from "next/server";
+import type { ModelRequestConfig } from "@/lib/ai-config";
+import { createLanguageModel } from "@/lib/ai-models";
 import { chatRatelimit, getIP } from "@/lib/ratelimit";
 
 export const maxDuration = 30;
@@ -20,7 +21,7 @@ When providing LaTeX code:
 - Suggest best practices
 - Use code blocks with \`\`\`latex for LaTeX code
 
-You have access to the user's current document which is provided in the context.
+You have access to the user's current document which is provided in the context, along with a manifest of the other files in the project.
 
 When the user asks you to help with their document:
 - Reference specific parts of their document
@@ -31,6 +32,11 @@ You have tools available to directly modify the document:
 - Use insert_latex to insert code at the user's cursor position
 - Use replace_selection to replace selected text (only when user has selected text)
 - Use find_and_replace to find and replace specific text in the document
+- Use list_files to see every file in the project and read_file to read a file other than the one open in the editor
+- Use create_file, edit_file, append_to_file and rename_file to change other files in the project, such as chapters or references.bib
+- Every edit, including new files and renames, is proposed to the user for review and only applied once accepted; do not assume an edit is in the project until the user accepts it
+- Use compile_project to compile the project and read its errors; after fixing errors, compile again until the build succeeds
+- Use check_packages to confirm a package or document class is installed on the compile server before recommending it
 
 When the user asks you to add, insert, or write LaTeX code to their document, use the insert_latex tool.
 When the user asks you to replace or modify selected text, use the replace_selection tool.
@@ -45,12 +51,26 @@ Common tasks you help with:
 - Package recommendations
 - Debugging LaTeX errors`;
 
+const MAX_AGENT_STEPS = 20;
+
+const STEP_BUDGET_EXHAUSTED = `You have used every tool step available for this request. Do not call tools. Summarize what you changed, what still fails, and what the user should try next.`;
+
+// Frontend tool results are sent back as a new request that continues the same
+// assistant message, so the budget has to count the steps it already holds.
+const countPreviousSteps = (
+  messages: Parameters<typeof convertToModelMessages>[0],
+) => {
+  const last = messages.at(-1);
+  if (last?.role !== "assistant") return 0;
+  return last.parts.filter((part) => part.type === "step-start").length;
+};
+
 export async function POST(req: Request) {
   const payload = (await req.json()) as {
     messages?: Parameters<typeof convertToModelMessages>[0];
     system?: string;
     tools?: Parameters<typeof frontendTools>[0];
-    config?: { apiKey?: string; baseUrl?: string; modelName?: string };
+    config?: ModelRequestConfig;
     transform?: {
       mode: "polish" | "rewrite" | "expand" | "translate";
       targetLanguage?: "en" | "zh-CN";
@@ -106,14 +126,12 @@ export async function POST(req: Request) {
           controller.enqueue(encoder.encode(`${JSON.stringify(data)}\n`));
         };
 
-        const provider = createOpenAI({
-          apiKey: config?.apiKey || process.env.OPENAI_API_KEY,
-          baseURL: config?.baseUrl,
-        });
-        const modelName = config?.modelName || "gpt-4o";
+        const { model, modelName, providerOptions } =
+          createLanguageModel(config);
 
         send({
           type: "meta",
+          kind: config?.kind ?? "openai-compatible",
           modelName,
           baseUrl: config?.baseUrl,
           startedAt: new Date().toISOString(),
@@ -121,7 +139,8 @@ export async function POST(req: Request) {
 
         try {
           const result = streamText({
-            model: provider.chat(modelName as never),
+            model,
+            providerOptions,
             system:
               "You are a connectivity test. Respond in Chinese. If your provider supports a reasoning stream, include it.",
             prompt:
@@ -210,13 +229,10 @@ export async function POST(req: Request) {
 
   if (isTest) {
     try {
-      const provider = createOpenAI({
-        apiKey: config?.apiKey || process.env.OPENAI_API_KEY,
-        baseURL: config?.baseUrl,
-      });
-      const modelName = config?.modelName || "gpt-4o";
+      const { model, providerOptions } = createLanguageModel(config);
       await generateText({
-        model: provider.chat(modelName as never),
+        model,
+        providerOptions,
         system: "You are a helpful assistant.",
         prompt: "Ping",
         maxOutputTokens: 1,
@@ -243,11 +259,7 @@ export async function POST(req: Request) {
     }
 
     try {
-      const provider = createOpenAI({
-        apiKey: config?.apiKey || process.env.OPENAI_API_KEY,
-        baseURL: config?.baseUrl,
-      });
-      const modelName = config?.modelName || "gpt-4o";
+      const { model, modelName, providerOptions } = createLanguageModel(config);
 
       const instruction =
         transform.mode === "polish"
@@ -322,7 +334,8 @@ Rules:
 - Keep the original meaning unless the user requests otherwise.`;
 
               const textResult = streamText({
-                model: provider.chat(modelName as never),
+                model,
+                providerOptions,
                 system: textSystemPrompt,
                 prompt,
                 maxOutputTokens: 2048,
@@ -343,7 +356,8 @@ Output:
               let changes: string[] = [];
               try {
                 const analysis = await generateText({
-                  model: provider.chat(modelName as never),
+                  model,
+                  providerOptions,
                   system: analysisSystemPrompt,
                   prompt: `Original text:\n${analysisBaseText}\n\nOptimized text:\n${fullText}\n\nReturn JSON array:`,
                   maxOutputTokens: 256,
@@ -402,7 +416,8 @@ Output:
 - "changes" is 3-8 short bullet points describing what you changed.`;
 
       const result = await generateText({
-        model: provider.chat(modelName as never),
+        model,
+        providerOptions,
         system: systemPrompt,
         prompt,
         maxOutputTokens: 2048,
@@ -451,21 +466,22 @@ Output:
     return NextResponse.json({ error: "Missing messages" }, { status: 400 });
   }
 
-  const fullSystemPrompt = system
-    ? `${SYSTEM_PROMPT}\n\n${system}`
-    : SYSTEM_PROMPT;
+  const remainingSteps = MAX_AGENT_STEPS - countPreviousSteps(messages);
+  const basePrompt = system ? `${SYSTEM_PROMPT}\n\n${system}` : SYSTEM_PROMPT;
+  const fullSystemPrompt =
+    remainingSteps > 0
+      ? basePrompt
+      : `${basePrompt}\n\n${STEP_BUDGET_EXHAUSTED}`;
 
-  const provider = createOpenAI({
-    apiKey: config?.apiKey || process.env.OPENAI_API_KEY,
-    baseURL: config?.baseUrl,
-  });
-  const modelName = config?.modelName || "gpt-4o";
+  const { model, providerOptions } = createLanguageModel(config);
 
   const result = streamText({
-    model: provider.chat(modelName as never),
+    model,
+    providerOptions,
     system: fullSystemPrompt,
     messages: await convertToModelMessages(messages),
-    stopWhen: stepCountIs(10),
+    stopWhen: stepCountIs(Math.max(remainingSteps, 1)),
+    toolChoice: remainingSteps > 0 ? "auto" : "none",
     tools: frontendTools(
       tools ?? ({} as Parameters<typeof frontendTools>[0]),
     ) as unknown as ToolSet,
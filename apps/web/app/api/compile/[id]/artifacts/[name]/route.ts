@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; name: string }> },
+) {
+  const { id, name } = await params;
+
+  const response = await fetch(
+    `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}/artifacts/${encodeURIComponent(name)}`,
+    { cache: "no-store", headers: getLatexApiHeaders() },
+  );
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    return NextResponse.json(
+      { error: data?.error || "Artifact unavailable" },
+      { status: response.status },
+    );
+  }
+
+  return new NextResponse(await response.arrayBuffer(), {
+    headers: {
+      "Content-Type":
+        response.headers.get("Content-Type") || "application/octet-stream",
+      "Content-Disposition": `attachment; filename=${name}`,
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+// Covers the queue wait plus every pass of a build, so the stream outlives
+// the longest compile the latex-api allows.
+export const maxDuration = 300;
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  const response = await fetch(
+    `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}/log`,
+    {
+      cache: "no-store",
+      headers: getLatexApiHeaders(),
+      signal: req.signal,
+    },
+  );
+
+  if (!response.ok || !response.body) {
+    return NextResponse.json(
+      { error: "Build log unavailable" },
+      { status: response.status === 404 ? 404 : 502 },
+    );
+  }
+
+  return new Response(response.body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+    },
+  });
+}
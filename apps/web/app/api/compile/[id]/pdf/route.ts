@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  const response = await fetch(
+    `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}/output.pdf`,
+    { cache: "no-store", headers: getLatexApiHeaders() },
+  );
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    return NextResponse.json(
+      { error: data?.error || "PDF unavailable" },
+      { status: response.status },
+    );
+  }
+
+  const pdfBuffer = await response.arrayBuffer();
+
+  return new NextResponse(pdfBuffer, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": "inline; filename=document.pdf",
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    const { pages, format, dpi } = (await req.json()) as {
+      pages?: number[];
+      format?: string;
+      dpi?: number;
+    };
+
+    const response = await fetch(
+      `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}/render`,
+      {
+        method: "POST",
+        headers: getLatexApiHeaders({
+          "Content-Type": "application/json",
+        }),
+        body: JSON.stringify({ pages, format, dpi }),
+      },
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error || "Render failed" },
+        { status: response.status },
+      );
+    }
+
+    return NextResponse.json({
+      format: data.format,
+      dpi: data.dpi,
+      pageCount: data.page_count,
+      pages: data.pages,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
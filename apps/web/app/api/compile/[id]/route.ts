@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import {
+  getLatexApiHeaders,
+  getLatexApiUrl,
+  summarizeCompileFailure,
+} from "@/lib/latex-api";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    const response = await fetch(
+      `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}`,
+      { cache: "no-store", headers: getLatexApiHeaders() },
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error || "Unknown build" },
+        { status: response.status },
+      );
+    }
+
+    if (data.status === "failure") {
+      return NextResponse.json({
+        status: data.status,
+        ...summarizeCompileFailure(data),
+      });
+    }
+
+    return NextResponse.json({
+      status: data.status,
+      queuePosition: data.queue_position ?? 0,
+      artifacts: data.artifacts ?? [],
+      warnings: (data.diagnostics ?? []).filter(
+        (d: { severity: string }) => d.severity !== "error",
+      ),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unknown compilation error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+const DIRECTIONS = ["forward", "inverse"];
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string; direction: string }> },
+) {
+  const { id, direction } = await params;
+
+  if (!DIRECTIONS.includes(direction)) {
+    return NextResponse.json(
+      { error: "Unknown SyncTeX direction" },
+      { status: 404 },
+    );
+  }
+
+  const { search } = new URL(req.url);
+  const response = await fetch(
+    `${getLatexApiUrl()}/builds/${encodeURIComponent(id)}/synctex/${direction}${search}`,
+    { cache: "no-store", headers: getLatexApiHeaders() },
+  );
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    return NextResponse.json(
+      { error: data?.error || "SyncTeX lookup failed" },
+      { status: response.status },
+    );
+  }
+
+  return NextResponse.json(data);
+}
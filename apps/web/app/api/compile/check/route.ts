@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function POST(req: Request) {
+  try {
+    const { projectId, resources } = (await req.json()) as {
+      projectId?: string;
+      resources?: Array<{ path: string; hash: string }>;
+    };
+
+    if (!projectId || !resources) {
+      return NextResponse.json(
+        { error: "Missing projectId or resources" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(
+      `${getLatexApiUrl()}/workspaces/${encodeURIComponent(projectId)}/check`,
+      {
+        method: "POST",
+        headers: getLatexApiHeaders({
+          "Content-Type": "application/json",
+        }),
+        body: JSON.stringify({ resources }),
+      },
+    );
+    const data = await response.json();
+
+    return NextResponse.json(
+      { missing: data.missing ?? resources.map((r) => r.path) },
+      { status: response.ok ? 200 : response.status },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
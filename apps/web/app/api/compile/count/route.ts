@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { getIP } from "@/lib/ratelimit";
+import {
+  type ApiResource,
+  getLatexApiHeaders,
+  getLatexApiUrl,
+} from "@/lib/latex-api";
+
+interface ApiWordCounts {
+  words_text: number;
+  words_headers: number;
+  words_captions: number;
+  headers: number;
+  floats: number;
+  math_inline: number;
+  math_display: number;
+}
+
+function toWordCounts(counts: ApiWordCounts) {
+  return {
+    text: counts.words_text,
+    headers: counts.words_headers,
+    captions: counts.words_captions,
+    headerCount: counts.headers,
+    floats: counts.floats,
+    mathInline: counts.math_inline,
+    mathDisplay: counts.math_display,
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    const { resources } = (await req.json()) as {
+      resources?: ApiResource[];
+    };
+
+    const texResources = resources?.filter((r) => r.content !== undefined);
+    if (!texResources || texResources.length === 0) {
+      return NextResponse.json(
+        { error: "No resources provided" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(`${getLatexApiUrl()}/texcount`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+        "X-Client-Id": getIP(req),
+      }),
+      body: JSON.stringify({
+        resources: texResources.map(({ path, content, main }) => ({
+          path,
+          content,
+          main,
+        })),
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error ?? "Word count failed" },
+        { status: response.status },
+      );
+    }
+
+    const files = data.files as Array<
+      ApiWordCounts & {
+        file: string;
+        sections: Array<ApiWordCounts & { type: string; title: string }>;
+      }
+    >;
+    return NextResponse.json({
+      total: toWordCounts(data.total),
+      files: files.map((f) => ({
+        file: f.file,
+        ...toWordCounts(f),
+        sections: f.sections.map((s) => ({
+          type: s.type,
+          title: s.title,
+          ...toWordCounts(s),
+        })),
+      })),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { compileRatelimit, getIP } from "@/lib/ratelimit";
+import {
+  type ApiResource,
+  getLatexApiHeaders,
+  getLatexApiUrl,
+  summarizeCompileFailure,
+  toApiResources,
+} from "@/lib/latex-api";
+
+const COMPILERS = ["pdflatex", "xelatex", "lualatex"];
+
+export async function POST(req: Request) {
+  const ip = getIP(req);
+
+  if (compileRatelimit) {
+    const { success } = await compileRatelimit.limit(ip);
+    if (!success) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429 });
+    }
+  }
+
+  try {
+    const { resources, compiler, diff } = (await req.json()) as {
+      resources: ApiResource[];
+      compiler?: string;
+      diff?: { path: string; old: string; new: string };
+    };
+
+    if (!resources || resources.length === 0 || !diff) {
+      return NextResponse.json(
+        { error: "No resources provided" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(`${getLatexApiUrl()}/diffs`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+        "X-Client-Id": ip,
+      }),
+      body: JSON.stringify({
+        compiler:
+          compiler && COMPILERS.includes(compiler) ? compiler : "pdflatex",
+        path: diff.path,
+        old: diff.old,
+        new: diff.new,
+        resources: toApiResources(resources),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(summarizeCompileFailure(data), {
+        status: [422, 429, 503].includes(response.status)
+          ? response.status
+          : 500,
+      });
+    }
+
+    return NextResponse.json({
+      id: data.id,
+      status: data.status,
+      queuePosition: data.queue_position ?? 0,
+    });
+  } catch (error) {
+    console.error("Diff compilation error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unknown compilation error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getIP } from "@/lib/ratelimit";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function POST(req: Request) {
+  try {
+    const { content, config } = (await req.json()) as {
+      content?: string;
+      config?: string;
+    };
+
+    if (typeof content !== "string") {
+      return NextResponse.json(
+        { error: "No content provided" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(`${getLatexApiUrl()}/format`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+        "X-Client-Id": getIP(req),
+      }),
+      body: JSON.stringify({ content, config }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error ?? "Formatting failed" },
+        { status: response.status },
+      );
+    }
+
+    return NextResponse.json({ content: data.content });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
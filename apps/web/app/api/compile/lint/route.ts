@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getIP } from "@/lib/ratelimit";
+import {
+  type ApiResource,
+  getLatexApiHeaders,
+  getLatexApiUrl,
+} from "@/lib/latex-api";
+
+export async function POST(req: Request) {
+  try {
+    const { resources, suppress } = (await req.json()) as {
+      resources?: ApiResource[];
+      suppress?: number[];
+    };
+
+    if (!resources || resources.length === 0) {
+      return NextResponse.json(
+        { error: "No resources provided" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(`${getLatexApiUrl()}/lint`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+        "X-Client-Id": getIP(req),
+      }),
+      body: JSON.stringify({
+        resources: resources.map(({ path, content }) => ({ path, content })),
+        suppress,
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error ?? "Lint failed" },
+        { status: response.status },
+      );
+    }
+
+    return NextResponse.json({ warnings: data.warnings });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
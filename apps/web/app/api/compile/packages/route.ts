@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function POST(req: Request) {
+  try {
+    const { packages, classes, fonts } = (await req.json()) as {
+      packages?: string[];
+      classes?: string[];
+      fonts?: string[];
+    };
+
+    const response = await fetch(`${getLatexApiUrl()}/packages/check`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+      }),
+      body: JSON.stringify({ packages, classes, fonts }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.error ?? "Package lookup failed" },
+        { status: response.status },
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getLatexApiHeaders, getLatexApiUrl } from "@/lib/latex-api";
+
+export async function GET() {
+  try {
+    const response = await fetch(`${getLatexApiUrl()}/queue`, {
+      cache: "no-store",
+      headers: getLatexApiHeaders(),
+    });
+    const data = await response.json();
+    return NextResponse.json({
+      active: data.active,
+      maxConcurrent: data.max_concurrent,
+      depth: data.depth,
+      maxDepth: data.max_depth,
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Compile queue unavailable" },
+      { status: 502 },
+    );
+  }
+}
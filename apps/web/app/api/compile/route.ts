@@ -1,18 +1,20 @@
 import { NextResponse } from "next/server";
 import { compileRatelimit, getIP } from "@/lib/ratelimit";
+import {
+  type ApiResource,
+  getLatexApiHeaders,
+  getLatexApiUrl,
+  summarizeCompileFailure,
+  toApiResources,
+} from "@/lib/latex-api";
 
-export const maxDuration = 60;
-
-interface CompileResource {
-  path: string;
-  content?: string;
-  file?: string;
-  main?: boolean;
-}
+const COMPILERS = ["pdflatex", "xelatex", "lualatex"];
+const OUTPUTS = ["log", "aux", "bbl", "blg", "synctex.gz"];
 
 export async function POST(req: Request) {
+  const ip = getIP(req);
+
   if (compileRatelimit) {
-    const ip = getIP(req);
     const { success, limit, remaining, reset } =
       await compileRatelimit.limit(ip);
 
@@ -32,8 +34,11 @@ export async function POST(req: Request) {
   }
 
   try {
-    const { resources } = (await req.json()) as {
-      resources: CompileResource[];
+    const { resources, compiler, projectId, outputs } = (await req.json()) as {
+      resources: ApiResource[];
+      compiler?: string;
+      projectId?: string;
+      outputs?: string[];
     };
 
     if (!resources || resources.length === 0) {
@@ -43,74 +48,35 @@ export async function POST(req: Request) {
       );
     }
 
-    const apiResources = resources.map((r) => {
-      const resource: Record<string, unknown> = {
-        path: r.path,
-      };
-
-      const isBase64Image =
-        r.content &&
-        !r.file &&
-        (r.content.startsWith("/9j/") || r.content.startsWith("iVBOR"));
-
-      if (isBase64Image) {
-        const cleanBase64 = r.content?.replace(/\s/g, "");
-        resource.file = cleanBase64;
-      } else if (r.content) {
-        resource.content = r.content;
-      }
-
-      if (r.file) {
-        const cleanBase64 = r.file.replace(/\s/g, "");
-        resource.file = cleanBase64;
-      }
-      if (r.main) resource.main = r.main;
-      return resource;
-    });
-
-    const latexApiUrl = process.env.LATEX_API_URL || "http://localhost:3001";
-    const response = await fetch(`${latexApiUrl}/builds/sync`, {
+    const response = await fetch(`${getLatexApiUrl()}/builds`, {
       method: "POST",
-      headers: {
+      headers: getLatexApiHeaders({
         "Content-Type": "application/json",
-      },
+        "X-Client-Id": ip,
+      }),
       body: JSON.stringify({
-        compiler: "pdflatex",
-        resources: apiResources,
+        compiler:
+          compiler && COMPILERS.includes(compiler) ? compiler : "pdflatex",
+        project_id: projectId,
+        outputs: outputs?.filter((o) => OUTPUTS.includes(o)),
+        resources: toApiResources(resources),
       }),
     });
 
-    const contentType = response.headers.get("content-type") ?? "";
+    const data = await response.json();
 
-    if (!response.ok || contentType.includes("application/json")) {
-      const errorData = await response.json();
-      const logContent = errorData.log_files?.["__main_document__.log"] ?? "";
-      const errorLines = logContent
-        .split("\n")
-        .filter(
-          (line: string) =>
-            line.includes("Error") ||
-            line.includes("!") ||
-            line.includes("Missing"),
-        )
-        .slice(0, 10)
-        .join("\n");
-      return NextResponse.json(
-        {
-          error: `Compilation failed: ${errorData.error || "Unknown error"}`,
-          details: errorLines || logContent.slice(-1000),
-        },
-        { status: 500 },
-      );
+    if (!response.ok) {
+      return NextResponse.json(summarizeCompileFailure(data), {
+        status: [409, 429, 503].includes(response.status)
+          ? response.status
+          : 500,
+      });
     }
 
-    const pdfBuffer = await response.arrayBuffer();
-
-    return new NextResponse(pdfBuffer, {
-      headers: {
-        "Content-Type": "application/pdf",
-        "Content-Disposition": "inline; filename=document.pdf",
-      },
+    return NextResponse.json({
+      id: data.id,
+      status: data.status,
+      queuePosition: data.queue_position ?? 0,
     });
   } catch (error) {
     console.error("Compilation error:", error);
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getIP } from "@/lib/ratelimit";
+import {
+  getLatexApiHeaders,
+  getLatexApiUrl,
+  summarizeCompileFailure,
+} from "@/lib/latex-api";
+
+const COMPILERS = ["pdflatex", "xelatex", "lualatex"];
+
+export async function POST(req: Request) {
+  try {
+    const { snippet, preamble, compiler, format } = (await req.json()) as {
+      snippet?: string;
+      preamble?: string;
+      compiler?: string;
+      format?: string;
+    };
+
+    if (!snippet?.trim()) {
+      return NextResponse.json(
+        { error: "No snippet provided" },
+        { status: 400 },
+      );
+    }
+
+    const response = await fetch(`${getLatexApiUrl()}/snippets/render`, {
+      method: "POST",
+      headers: getLatexApiHeaders({
+        "Content-Type": "application/json",
+        "X-Client-Id": getIP(req),
+      }),
+      body: JSON.stringify({
+        snippet,
+        preamble,
+        compiler:
+          compiler && COMPILERS.includes(compiler) ? compiler : "pdflatex",
+        format: format === "png" ? "png" : "svg",
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(summarizeCompileFailure(data), {
+        status: response.status,
+      });
+    }
+
+    return NextResponse.json({ format: data.format, content: data.content });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,13 @@
 
 import Link from "next/link";
 import { useMemo, useState, useRef, type ChangeEvent } from "react";
-import { DownloadIcon, LogOutIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import {
+  DownloadIcon,
+  FileTextIcon,
+  LogOutIcon,
+  Trash2Icon,
+  UploadIcon,
+} from "lucide-react";
 import { toast } from "sonner";
 import {
   useAuthStore,
@@ -13,6 +19,7 @@ import {
 } from "@/stores/document-store";
 import { indexedDBStorage } from "@/lib/storage/indexeddb-storage";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
 
 export default function MePage() {
   const currentUserId = useAuthStore((s) => s.currentUserId);
@@ -23,6 +30,8 @@ export default function MePage() {
   const deleteSession = useChatStore((s) => s.deleteSession);
   const resetChats = useChatStore((s) => s.resetChats);
   const activeProjectId = useProjectStore((s) => s.activeProjectId);
+  const projects = useProjectStore((s) => s.projects);
+  const setActiveProject = useProjectStore((s) => s.setActiveProject);
 
   const providers = useSettingsStore((s) => s.providers);
   const activeProviderId = useSettingsStore((s) => s.activeProviderId);
@@ -325,6 +334,49 @@ export default function MePage() {
         </div>
       </section>
 
+      <section className="space-y-3 rounded-lg border border-border bg-card p-4">
+        <div className="space-y-0.5">
+          <div className="font-medium text-sm">项目</div>
+          <div className="text-muted-foreground text-xs">
+            预览图取自最近一次成功编译的首页
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {projects.map((project) => (
+            <Link
+              key={project.id}
+              href="/"
+              onClick={() => setActiveProject(project.id)}
+              className={cn(
+                "overflow-hidden rounded-md border border-border transition-shadow hover:ring-2 hover:ring-primary/40",
+                project.id === activeProjectId && "ring-2 ring-primary/60",
+              )}
+            >
+              <div className="flex aspect-[4/3] items-start justify-center overflow-hidden bg-muted/30">
+                {project.thumbnail ? (
+                  <img
+                    src={project.thumbnail}
+                    alt={project.name}
+                    className="w-full bg-white"
+                  />
+                ) : (
+                  <FileTextIcon className="mt-8 size-10 text-muted-foreground/50" />
+                )}
+              </div>
+              <div className="border-border border-t px-3 py-2">
+                <div className="truncate font-medium text-sm">
+                  {project.name}
+                </div>
+                <div className="truncate text-muted-foreground text-xs">
+                  {new Date(project.createdAt).toLocaleDateString()} ·{" "}
+                  {project.compiler ?? "pdflatex"}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </section>
+
       <section className="space-y-3 rounded-lg border border-border bg-card p-4">
         <div className="space-y-0.5">
           <div className="font-medium text-sm">聊天会话</div>
@@ -9,6 +9,7 @@ import { ThemeProvider } from "next-themes";
 import { lastAssistantMessageIsCompleteWithToolCalls } from "ai";
 import { useEffect, type ReactNode } from "react";
 import { Toaster } from "@/components/ui/sonner";
+import { toModelRequestConfig } from "@/lib/ai-config";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useChatStore, useSettingsStore } from "@/stores/document-store";
 
@@ -52,11 +53,7 @@ export function RootProvider({ children }: { children: ReactNode }) {
 
         return {
           config: activeProvider && activeModel
-            ? {
-                apiKey: activeProvider.apiKey || undefined,
-                baseUrl: activeProvider.baseUrl || undefined,
-                modelName: activeModel.modelName || undefined,
-              }
+            ? toModelRequestConfig(activeProvider, activeModel)
             : undefined,
         };
       },
@@ -0,0 +1,80 @@
+import {
+  compileProject,
+  gatherResources,
+  LatexCompileError,
+} from "@/lib/latex-compiler";
+import {
+  useDocumentStore,
+  usePendingChangeStore,
+} from "@/stores/document-store";
+import { isChangeStale } from "./pending-changes";
+
+const MAX_REPORTED_ERRORS = 20;
+const MAX_ERROR_LENGTH = 4000;
+
+export type AssistantCompileResult =
+  | { success: true; pendingChangesIncluded: number }
+  | {
+      success: false;
+      error: string;
+      errors: {
+        file: string | null;
+        line: number | null;
+        message: string;
+        context: string | null;
+      }[];
+      pendingChangesIncluded: number;
+    };
+
+/**
+ * Compiles the project as it would be with every pending change accepted, so
+ * that the assistant can check its own proposed fixes before the user
+ * reviews them. The preview pane is left untouched.
+ */
+export async function compileForAssistant(): Promise<AssistantCompileResult> {
+  const { files, mainFileId } = useDocumentStore.getState();
+  const pending = usePendingChangeStore
+    .getState()
+    .changes.filter((change) => !isChangeStale(change));
+  const byFile = new Map(pending.map((c) => [c.fileId, c]));
+  const resources = [
+    ...gatherResources(
+      files.map((f) => {
+        const change = byFile.get(f.id);
+        if (!change) return f;
+        return f.type === "tex"
+          ? { ...f, name: change.rename ?? f.name, content: change.proposed }
+          : { ...f, name: change.rename ?? f.name };
+      }),
+      mainFileId,
+    ),
+    ...pending.flatMap((c) =>
+      c.create ? [{ path: c.create, content: c.proposed }] : [],
+    ),
+  ];
+
+  try {
+    await compileProject(resources);
+    return { success: true, pendingChangesIncluded: pending.length };
+  } catch (error) {
+    const diagnostics =
+      error instanceof LatexCompileError ? error.diagnostics : [];
+    return {
+      success: false,
+      error: (error instanceof Error
+        ? error.message
+        : "Compilation failed"
+      ).slice(0, MAX_ERROR_LENGTH),
+      errors: diagnostics
+        .filter((d) => d.severity === "error")
+        .slice(0, MAX_REPORTED_ERRORS)
+        .map(({ file, line, message, context }) => ({
+          file,
+          line,
+          message,
+          context,
+        })),
+      pendingChangesIncluded: pending.length,
+    };
+  }
+}
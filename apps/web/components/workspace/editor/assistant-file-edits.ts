@@ -0,0 +1,206 @@
+import {
+  findFileByPath,
+  getFilePath,
+  usePendingChangeStore,
+  useDocumentStore,
+} from "@/stores/document-store";
+import {
+  replaceFirstMatch,
+  stageFileCreate,
+  stageFileEdit,
+  stageFileRename,
+} from "./pending-changes";
+
+// Every edit, including new files and renames, is staged for review and
+// carries the pending change it was folded into.
+export type FileEditResult =
+  | { success: true; message: string; path: string; changeId: string }
+  | { success: false; error: string };
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|pdf|eps)$/i;
+
+function normalizePath(path: string) {
+  return path
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .split("/")
+    .filter(Boolean);
+}
+
+function findPendingCreation(path: string) {
+  return (
+    usePendingChangeStore.getState().changes.find((c) => c.create === path) ??
+    null
+  );
+}
+
+// Files the assistant proposed creating can be edited further before the
+// user accepts them; the edits fold into the same pending change.
+function findTextFile(
+  path: string,
+): { fileId: string; path: string } | { error: string } {
+  const { files } = useDocumentStore.getState();
+  const normalized = normalizePath(path).join("/");
+  const file = findFileByPath(files, normalized);
+  if (!file) {
+    const pending = findPendingCreation(normalized);
+    if (pending) return { fileId: pending.fileId, path: normalized };
+    return { error: `File "${path}" does not exist` };
+  }
+  if (file.type !== "tex") return { error: `"${path}" is not a text file` };
+  return { fileId: file.id, path: getFilePath(files, file) };
+}
+
+export function createFile(path: string, content: string): FileEditResult {
+  const segments = normalizePath(path);
+  const name = segments.pop();
+  if (!name) return { success: false, error: "Path is empty" };
+  if (IMAGE_EXTENSIONS.test(name)) {
+    return { success: false, error: "Only text files can be created" };
+  }
+  const fullPath = [...segments, name].join("/");
+  const { files } = useDocumentStore.getState();
+  if (findFileByPath(files, fullPath) || findPendingCreation(fullPath)) {
+    return { success: false, error: `File "${path}" already exists` };
+  }
+
+  const staged = stageFileCreate(fullPath, "create_file", content);
+  if (!staged.ok) return { success: false, error: staged.error };
+  return {
+    success: true,
+    message: `Proposed creating ${fullPath}; it is created once the user accepts it`,
+    path: fullPath,
+    changeId: staged.changeId,
+  };
+}
+
+function propose(
+  fileId: string,
+  path: string,
+  source: string,
+  edit: Parameters<typeof stageFileEdit>[2],
+  failure?: string,
+): FileEditResult {
+  const staged = stageFileEdit(fileId, source, edit, failure);
+  if (!staged.ok) return { success: false, error: staged.error };
+  return {
+    success: true,
+    message: `Proposed an edit to ${path}; it is applied once the user accepts it`,
+    path,
+    changeId: staged.changeId,
+  };
+}
+
+function getActiveTextFile() {
+  const { files, activeFileId } = useDocumentStore.getState();
+  const file = files.find((f) => f.id === activeFileId);
+  if (!file || file.type !== "tex") return null;
+  return { file, path: getFilePath(files, file) };
+}
+
+export function proposeInsert(code: string): FileEditResult {
+  const target = getActiveTextFile();
+  if (!target) return { success: false, error: "No text file is open" };
+  const { cursorPosition } = useDocumentStore.getState();
+  return propose(
+    target.file.id,
+    target.path,
+    "insert_latex",
+    (content, map) => {
+      const at = map(cursorPosition);
+      return content.slice(0, at) + code + content.slice(at);
+    },
+  );
+}
+
+export function proposeSelectionReplace(code: string): FileEditResult {
+  const target = getActiveTextFile();
+  const { selectionRange } = useDocumentStore.getState();
+  if (!target || !selectionRange) {
+    return {
+      success: false,
+      error: "No text is currently selected in the editor",
+    };
+  }
+  return propose(
+    target.file.id,
+    target.path,
+    "replace_selection",
+    (content, map) =>
+      content.slice(0, map(selectionRange.start)) +
+      code +
+      content.slice(map(selectionRange.end)),
+  );
+}
+
+export function proposeFindAndReplace(
+  find: string,
+  replace: string,
+): FileEditResult {
+  const target = getActiveTextFile();
+  if (!target) return { success: false, error: "No text file is open" };
+  return propose(
+    target.file.id,
+    target.path,
+    "find_and_replace",
+    (content) => replaceFirstMatch(content, find, replace),
+    `Could not find "${find}" in the document`,
+  );
+}
+
+export function editFile(
+  path: string,
+  find: string,
+  replace: string,
+): FileEditResult {
+  const target = findTextFile(path);
+  if ("error" in target) return { success: false, error: target.error };
+  return propose(
+    target.fileId,
+    target.path,
+    "edit_file",
+    (content) =>
+      find && content.includes(find)
+        ? content.replace(find, () => replace)
+        : null,
+    `Could not find the given text in "${target.path}"`,
+  );
+}
+
+export function appendToFile(path: string, content: string): FileEditResult {
+  const target = findTextFile(path);
+  if ("error" in target) return { success: false, error: target.error };
+  return propose(target.fileId, target.path, "append_to_file", (current) => {
+    const separator = current && !current.endsWith("\n") ? "\n" : "";
+    return current + separator + content;
+  });
+}
+
+export function renameFile(path: string, newName: string): FileEditResult {
+  const name = newName.trim();
+  if (!name || name.includes("/") || name.includes("\\")) {
+    return { success: false, error: "The new name must be a plain file name" };
+  }
+  const { files } = useDocumentStore.getState();
+  const file = findFileByPath(files, normalizePath(path).join("/"));
+  if (!file) return { success: false, error: `File "${path}" does not exist` };
+  const conflict = files.some(
+    (f) =>
+      f.id !== file.id &&
+      f.name === name &&
+      (f.parentId ?? null) === (file.parentId ?? null),
+  );
+  if (conflict) {
+    return { success: false, error: `A file named "${name}" already exists` };
+  }
+
+  const staged = stageFileRename(file.id, "rename_file", name);
+  if (!staged.ok) return { success: false, error: staged.error };
+  const renamedPath = getFilePath(files, { ...file, name });
+  return {
+    success: true,
+    message: `Proposed renaming ${getFilePath(files, file)} to ${renamedPath}; it is renamed once the user accepts it`,
+    path: renamedPath,
+    changeId: staged.changeId,
+  };
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { RefObject, useMemo } from "react";
+import { RefObject, useMemo, useState } from "react";
 import { redo, redoDepth, undo, undoDepth } from "@codemirror/commands";
 import type { EditorView } from "@codemirror/view";
 import {
@@ -9,16 +9,21 @@ import {
   HistoryIcon,
   ItalicIcon,
   ListIcon,
+  LocateFixedIcon,
   Heading1Icon,
   Heading2Icon,
   CodeIcon,
   FunctionSquareIcon,
   FileTextIcon,
+  GitCompareIcon,
   ImageIcon,
+  IndentIncreaseIcon,
   MinusIcon,
   PlusIcon,
   Redo2Icon,
   SaveIcon,
+  SettingsIcon,
+  ShieldOffIcon,
   Undo2Icon,
 } from "lucide-react";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
@@ -37,7 +42,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useDocumentStore } from "@/stores/document-store";
+import { useDocumentStore, useProjectStore } from "@/stores/document-store";
+import { formatDocument, type FormatScope } from "./format-document";
+import { FormatterSettingsDialog } from "./formatter-settings-dialog";
+import { HistoryDiffDialog } from "./history-diff-dialog";
+import { WordCount } from "./word-count";
 
 const ZOOM_OPTIONS = [
   { value: "0.5", label: "50%" },
@@ -75,6 +84,17 @@ export function EditorToolbar({
   const historyEntries = useDocumentStore((s) => s.historyEntries);
   const saveHistoryEntry = useDocumentStore((s) => s.saveHistoryEntry);
   const restoreHistoryEntry = useDocumentStore((s) => s.restoreHistoryEntry);
+  const pdfBuildId = useDocumentStore((s) => s.pdfBuildId);
+  const requestPdfSync = useDocumentStore((s) => s.requestPdfSync);
+  const [diffDialogOpen, setDiffDialogOpen] = useState(false);
+  const [formatterDialogOpen, setFormatterDialogOpen] = useState(false);
+  const activeProjectId = useProjectStore((s) => s.activeProjectId);
+  const lintSuppressions = useProjectStore(
+    (s) => s.projects.find((p) => p.id === s.activeProjectId)?.lintSuppressions,
+  );
+  const setProjectLintSuppressions = useProjectStore(
+    (s) => s.setProjectLintSuppressions,
+  );
 
   const insertText = (before: string, after: string = "") => {
     const view = editorView.current;
@@ -97,6 +117,11 @@ export function EditorToolbar({
     view.focus();
   };
 
+  const handleFormat = (scope: FormatScope) => {
+    const view = editorView.current;
+    if (view) void formatDocument(view, scope);
+  };
+
   const wrapSelection = (wrapper: string) => {
     insertText(wrapper, wrapper);
   };
@@ -257,7 +282,88 @@ export function EditorToolbar({
       >
         <span className="font-mono text-xs">∫</span>
       </TooltipIconButton>
+      <div className="mx-2 h-4 w-px bg-border" />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6 p-1"
+            title="格式化"
+          >
+            <IndentIncreaseIcon className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuItem onClick={() => handleFormat("document")}>
+            格式化文档
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleFormat("selection")}>
+            格式化选区
+            <span className="ml-auto text-muted-foreground text-xs">
+              Shift+Alt+F
+            </span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setFormatterDialogOpen(true)}>
+            <SettingsIcon className="mr-2 size-4" />
+            格式化设置…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <TooltipIconButton
+        tooltip="跳转到 PDF (Ctrl/⌘ + Alt + J)"
+        onClick={() => {
+          const view = editorView.current;
+          if (!view) return;
+          const line = view.state.doc.lineAt(view.state.selection.main.head);
+          requestPdfSync(activeFileId, line.number);
+        }}
+        disabled={!pdfBuildId}
+      >
+        <LocateFixedIcon className="size-4" />
+      </TooltipIconButton>
       <div className="flex-1" />
+      {activeProjectId && lintSuppressions && lintSuppressions.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-1.5 text-muted-foreground text-xs"
+              title="已忽略的检查"
+            >
+              <ShieldOffIcon className="size-3.5" />
+              <span className="tabular-nums">{lintSuppressions.length}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            {lintSuppressions.map((n) => (
+              <DropdownMenuItem
+                key={n}
+                onClick={() =>
+                  setProjectLintSuppressions(
+                    activeProjectId,
+                    lintSuppressions.filter((m) => m !== n),
+                  )
+                }
+              >
+                chktex #{n}
+                <span className="ml-auto text-muted-foreground text-xs">
+                  恢复检查
+                </span>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setProjectLintSuppressions(activeProjectId, [])}
+            >
+              全部恢复
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+      <WordCount />
       <div className="flex items-center gap-1 text-muted-foreground text-xs">
         <ClockIcon className="size-3.5" />
         <span>{statusText}</span>
@@ -282,6 +388,13 @@ export function EditorToolbar({
             <SaveIcon className="mr-2 size-4" />
             保存当前版本
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setDiffDialogOpen(true)}
+            disabled={fileHistory.length === 0}
+          >
+            <GitCompareIcon className="mr-2 size-4" />
+            比较版本…
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
           {fileHistory.length > 0 ? (
             fileHistory.slice(0, 12).map((e) => (
@@ -297,6 +410,14 @@ export function EditorToolbar({
           )}
         </DropdownMenuContent>
       </DropdownMenu>
+      <HistoryDiffDialog
+        open={diffDialogOpen}
+        onOpenChange={setDiffDialogOpen}
+      />
+      <FormatterSettingsDialog
+        open={formatterDialogOpen}
+        onOpenChange={setFormatterDialogOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,99 @@
+import type { EditorView } from "@codemirror/view";
+import { toast } from "sonner";
+import { formatLatex } from "@/lib/latex-compiler";
+import { useDocumentStore, useProjectStore } from "@/stores/document-store";
+
+export type FormatScope = "document" | "selection";
+
+const isSpace = (char: string | undefined) =>
+  char !== undefined && /\s/.test(char);
+
+function mapCursor(before: string, after: string, position: number) {
+  let remaining = 0;
+  for (let i = 0; i < position; i++) {
+    if (!isSpace(before[i])) remaining++;
+  }
+  let mapped = 0;
+  while (mapped < after.length && remaining > 0) {
+    if (!isSpace(after[mapped])) remaining--;
+    mapped++;
+  }
+  if (position < before.length && !isSpace(before[position])) {
+    while (isSpace(after[mapped])) mapped++;
+  }
+  return mapped;
+}
+
+function reindent(text: string, indent: string, keepTrailingNewline: boolean) {
+  const body = keepTrailingNewline ? text : text.replace(/\n$/, "");
+  if (!indent) return body;
+  return body
+    .split("\n")
+    .map((line) => (line.trim() ? indent + line : line))
+    .join("\n");
+}
+
+export async function formatDocument(view: EditorView, scope: FormatScope) {
+  const { doc, selection } = view.state;
+  const { from, to, head } = selection.main;
+  const useSelection = scope === "selection" && from !== to;
+  const rangeFrom = useSelection ? doc.lineAt(from).from : 0;
+  const rangeTo = useSelection ? doc.lineAt(to).to : doc.length;
+  const original = doc.sliceString(rangeFrom, rangeTo);
+
+  const { projects, activeProjectId } = useProjectStore.getState();
+  const config = projects.find(
+    (p) => p.id === activeProjectId,
+  )?.formatterConfig;
+
+  let formatted: string;
+  try {
+    formatted = await formatLatex(original, config);
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "格式化失败");
+    return;
+  }
+  if (view.state.doc !== doc) {
+    toast.error("文档在格式化期间已修改，请重试");
+    return;
+  }
+  if (useSelection) {
+    const indent = original.match(/^[ \t]*/)?.[0] ?? "";
+    formatted = reindent(formatted, indent, original.endsWith("\n"));
+  }
+  if (formatted === original) return;
+
+  let prefix = 0;
+  const maxPrefix = Math.min(original.length, formatted.length);
+  while (prefix < maxPrefix && original[prefix] === formatted[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < maxPrefix - prefix &&
+    original[original.length - 1 - suffix] ===
+      formatted[formatted.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const anchor =
+    head < rangeFrom
+      ? head
+      : head > rangeTo
+        ? head + formatted.length - original.length
+        : rangeFrom + mapCursor(original, formatted, head - rangeFrom);
+
+  view.dispatch({
+    changes: {
+      from: rangeFrom + prefix,
+      to: rangeTo - suffix,
+      insert: formatted.slice(prefix, formatted.length - suffix),
+    },
+    selection: { anchor },
+    scrollIntoView: true,
+    userEvent: "input.format",
+  });
+  useDocumentStore.getState().setCursorPosition(anchor);
+  view.focus();
+}
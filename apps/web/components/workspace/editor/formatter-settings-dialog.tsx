@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useProjectStore } from "@/stores/document-store";
+
+const CONFIG_PLACEHOLDER = `defaultIndent: "  "
+indentPreamble: 1
+removeTrailingWhitespace:
+  beforeProcessing: 1
+  afterProcessing: 1`;
+
+interface FormatterSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FormatterSettingsDialog({
+  open,
+  onOpenChange,
+}: FormatterSettingsDialogProps) {
+  const activeProjectId = useProjectStore((s) => s.activeProjectId);
+  const formatterConfig = useProjectStore(
+    (s) => s.projects.find((p) => p.id === s.activeProjectId)?.formatterConfig,
+  );
+  const setProjectFormatterConfig = useProjectStore(
+    (s) => s.setProjectFormatterConfig,
+  );
+  const [config, setConfig] = useState("");
+
+  useEffect(() => {
+    if (open) setConfig(formatterConfig ?? "");
+  }, [open, formatterConfig]);
+
+  const handleSave = () => {
+    if (activeProjectId) setProjectFormatterConfig(activeProjectId, config);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>格式化设置</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          <p className="text-muted-foreground text-xs">
+            latexindent 的 YAML 配置，仅对当前项目生效。
+          </p>
+          <Textarea
+            value={config}
+            onChange={(e) => setConfig(e.target.value)}
+            placeholder={CONFIG_PLACEHOLDER}
+            className="min-h-48 font-mono text-xs md:text-xs"
+            spellCheck={false}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={!activeProjectId}>
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
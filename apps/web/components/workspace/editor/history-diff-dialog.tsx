@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { GitCompareIcon, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { compileDiff, gatherResources } from "@/lib/latex-compiler";
+import {
+  getFilePath,
+  useDocumentStore,
+  useProjectStore,
+} from "@/stores/document-store";
+
+const CURRENT = "current";
+
+interface HistoryDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleString("zh-CN");
+}
+
+export function HistoryDiffDialog({
+  open,
+  onOpenChange,
+}: HistoryDiffDialogProps) {
+  const activeFileId = useDocumentStore((s) => s.activeFileId);
+  const historyEntries = useDocumentStore((s) => s.historyEntries);
+  const [oldId, setOldId] = useState("");
+  const [newId, setNewId] = useState(CURRENT);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileHistory = useMemo(
+    () => historyEntries.filter((e) => e.fileId === activeFileId),
+    [activeFileId, historyEntries],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setOldId(fileHistory[0]?.id ?? "");
+    setNewId(CURRENT);
+    setError(null);
+  }, [open, fileHistory]);
+
+  const handleGenerate = async () => {
+    const { files, mainFileId } = useDocumentStore.getState();
+    const activeFile = files.find((f) => f.id === activeFileId);
+    const oldEntry = fileHistory.find((e) => e.id === oldId);
+    const newContent =
+      newId === CURRENT
+        ? activeFile?.content
+        : fileHistory.find((e) => e.id === newId)?.content;
+    if (!activeFile || !oldEntry || newContent === undefined) return;
+
+    // Opened while still inside the click so popup blockers let it through;
+    // it is pointed at the PDF once the diff has compiled.
+    const preview = window.open("", "_blank");
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const { projects, activeProjectId } = useProjectStore.getState();
+      const { pdf } = await compileDiff(
+        gatherResources(files, mainFileId),
+        {
+          path: getFilePath(files, activeFile),
+          old: oldEntry.content,
+          new: newContent,
+        },
+        { compiler: projects.find((p) => p.id === activeProjectId)?.compiler },
+      );
+      const url = URL.createObjectURL(
+        new Blob([new Uint8Array(pdf)], { type: "application/pdf" }),
+      );
+      if (preview) {
+        preview.location.href = url;
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = "diff.pdf";
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      onOpenChange(false);
+    } catch (err) {
+      preview?.close();
+      setError(err instanceof Error ? err.message : "生成失败");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>比较版本</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1">
+            <span className="text-muted-foreground text-xs">旧版本</span>
+            <Select value={oldId} onValueChange={setOldId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="选择历史版本" />
+              </SelectTrigger>
+              <SelectContent>
+                {fileHistory.map((e) => (
+                  <SelectItem key={e.id} value={e.id}>
+                    {formatTime(e.createdAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-muted-foreground text-xs">新版本</span>
+            <Select value={newId} onValueChange={setNewId}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT}>当前内容</SelectItem>
+                {fileHistory.map((e) => (
+                  <SelectItem key={e.id} value={e.id}>
+                    {formatTime(e.createdAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-muted-foreground text-xs">
+            删除的内容标为红色，新增的内容标为蓝色。
+          </p>
+          {error && (
+            <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-destructive/10 p-2 text-destructive text-xs">
+              {error}
+            </pre>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={!oldId || oldId === newId || isGenerating}
+          >
+            {isGenerating ? (
+              <LoaderIcon className="mr-2 size-4 animate-spin" />
+            ) : (
+              <GitCompareIcon className="mr-2 size-4" />
+            )}
+            生成差异 PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
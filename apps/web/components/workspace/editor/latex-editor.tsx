@@ -19,6 +19,12 @@ import {
 } from "@codemirror/view";
 import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
 import { syntaxHighlighting } from "@codemirror/language";
+import {
+  forceLinting,
+  linter,
+  lintGutter,
+  type Diagnostic,
+} from "@codemirror/lint";
 import { oneDark, oneDarkHighlightStyle } from "@codemirror/theme-one-dark";
 import {
   search,
@@ -30,12 +36,31 @@ import {
 } from "@codemirror/search";
 import { latex } from "codemirror-lang-latex";
 import {
+  findFileByPath,
+  getFilePath,
+  getMainFile,
   useDocumentStore,
+  usePendingChangeStore,
+  useProjectStore,
   useSettingsStore,
-  type ProjectFile,
 } from "@/stores/document-store";
-import { compileLatex, type CompileResource } from "@/lib/latex-compiler";
+import {
+  checkTexAvailability,
+  compileToPreview,
+  LatexCompileError,
+  lintLatex,
+  renderSnippet,
+} from "@/lib/latex-compiler";
+import { toModelRequestConfig } from "@/lib/ai-config";
+import { parsePackageReferences } from "@/lib/latex-outline";
 import { EditorToolbar } from "./editor-toolbar";
+import { formatDocument } from "./format-document";
+import {
+  pendingDiffExtension,
+  replaceFirstMatch,
+  showPendingDiff,
+  stageFileEdit,
+} from "./pending-changes";
 import { AIDrawer } from "./ai-drawer";
 import { ImagePreview } from "./image-preview";
 import { SearchPanel } from "./search-panel";
@@ -48,7 +73,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2Icon } from "lucide-react";
+import { Loader2Icon, XIcon } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -58,6 +83,22 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
 
+const PREVIEW_ENVIRONMENTS = new Set([
+  "equation",
+  "equation*",
+  "align",
+  "align*",
+  "gather",
+  "gather*",
+  "multline",
+  "multline*",
+  "displaymath",
+  "tikzpicture",
+  "tikzcd",
+]);
+const SNIPPET_PREVIEW_DELAY_MS = 600;
+const LINT_DELAY_MS = 1000;
+
 interface StickyItem {
   type: "section" | "begin";
   name: string;
@@ -173,40 +214,139 @@ function getStickyLines(
   return stack;
 }
 
-function gatherResources(files: ProjectFile[]): CompileResource[] {
-  const byId = new Map(files.map((f) => [f.id, f]));
-  const buildPath = (file: ProjectFile) => {
-    const segments: string[] = [file.name];
-    let parentId = file.parentId ?? null;
-    while (parentId) {
-      const parent = byId.get(parentId) ?? null;
-      if (!parent || parent.type !== "folder") break;
-      segments.unshift(parent.name);
-      parentId = parent.parentId ?? null;
-    }
-    return segments.join("/");
-  };
+function findPreviewEnvironment(
+  parsedLines: ParsedLine[],
+  currentLine: number,
+): { name: string; startLine: number; endLine: number } | null {
+  const stack: ParsedLine[] = [];
+  let found: { name: string; startLine: number; endLine: number } | null = null;
 
-  return files.flatMap((f) => {
-    if (f.type === "folder") return [];
-    const path = buildPath(f);
-    if (f.type === "tex") {
-      return {
-        path,
-        content: f.content ?? "",
-        main: f.name === "document.tex",
-      };
+  for (const item of parsedLines) {
+    if (item.type === "begin") {
+      stack.push(item);
+    } else if (item.type === "end") {
+      for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].name !== item.name) continue;
+        const [begin] = stack.splice(i, 1);
+        if (
+          PREVIEW_ENVIRONMENTS.has(item.name) &&
+          begin.line <= currentLine &&
+          item.line >= currentLine
+        ) {
+          found = {
+            name: item.name,
+            startLine: begin.line,
+            endLine: item.line,
+          };
+        }
+        break;
+      }
     }
-    const dataUrl = f.dataUrl ?? "";
-    let base64 = dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl;
-    base64 = base64.replace(/\s/g, "");
+  }
+
+  return found;
+}
+
+function getCompileMarkers(view: EditorView): Diagnostic[] {
+  const {
+    files,
+    mainFileId,
+    activeFileId,
+    compileDiagnostics,
+    compileWarnings,
+  } = useDocumentStore.getState();
+  const mainFile = getMainFile(files, mainFileId);
+  const doc = view.state.doc;
+  return [...compileDiagnostics, ...compileWarnings].flatMap((d) => {
+    if (d.line === null) return [];
+    const file = d.file ? findFileByPath(files, d.file) : mainFile;
+    if (file?.id !== activeFileId) return [];
+    const line = doc.line(Math.min(Math.max(d.line, 1), doc.lines));
     return {
-      path,
-      file: base64,
+      from: line.from,
+      to: line.to,
+      severity: d.severity,
+      message: d.context ? `${d.message}\n${d.context}` : d.message,
+      source: "LaTeX",
     };
   });
 }
 
+async function lintActiveFile(view: EditorView): Promise<Diagnostic[]> {
+  const markers = getCompileMarkers(view);
+  const { files, activeFileId } = useDocumentStore.getState();
+  const activeFile = files.find((f) => f.id === activeFileId);
+  if (activeFile?.type !== "tex") return markers;
+
+  const { projects, activeProjectId, setProjectLintSuppressions } =
+    useProjectStore.getState();
+  const suppress =
+    projects.find((p) => p.id === activeProjectId)?.lintSuppressions ?? [];
+  const doc = view.state.doc;
+  const content = doc.toString();
+  const packages = parsePackageReferences(content);
+  const [warnings, availability] = await Promise.all([
+    lintLatex([{ path: getFilePath(files, activeFile), content }], suppress),
+    packages.length > 0
+      ? checkTexAvailability({ packages: packages.map((p) => p.name) })
+      : null,
+  ]);
+
+  const packageMarkers = packages.flatMap((p): Diagnostic[] =>
+    availability?.packages[p.name] === false
+      ? [
+          {
+            from: p.from,
+            to: p.to,
+            severity: "error",
+            message: `编译服务器上没有宏包 ${p.name}`,
+            source: "kpsewhich",
+          },
+        ]
+      : [],
+  );
+
+  const lintMarkers = (warnings ?? []).flatMap((w): Diagnostic[] => {
+    if (w.line < 1 || w.line > doc.lines) return [];
+    const line = doc.line(w.line);
+    const from = Math.min(line.from + Math.max(w.column - 1, 0), line.to);
+    const fix = w.fix;
+    return [
+      {
+        from,
+        to: Math.min(from + w.length, line.to),
+        severity: w.severity,
+        message: w.message,
+        source: `chktex #${w.number}`,
+        actions: [
+          ...(fix
+            ? [
+                {
+                  name: "修复",
+                  apply: (view: EditorView, from: number, to: number) =>
+                    view.dispatch({
+                      changes: { from, to, insert: fix.replacement },
+                    }),
+                },
+              ]
+            : []),
+          {
+            name: "在此项目中忽略",
+            apply: () => {
+              if (!activeProjectId) return;
+              setProjectLintSuppressions(activeProjectId, [
+                ...new Set([...suppress, w.number]),
+              ]);
+            },
+          },
+        ],
+      },
+    ];
+  });
+
+  return [...markers, ...packageMarkers, ...lintMarkers];
+}
+
 function getActiveFileContent(): string {
   const state = useDocumentStore.getState();
   const activeFile = state.files.find(
@@ -230,10 +370,14 @@ export function LatexEditor() {
   const setSelectionRange = useDocumentStore((s) => s.setSelectionRange);
   const jumpToPosition = useDocumentStore((s) => s.jumpToPosition);
   const clearJumpRequest = useDocumentStore((s) => s.clearJumpRequest);
-  const isCompiling = useDocumentStore((s) => s.isCompiling);
-  const setIsCompiling = useDocumentStore((s) => s.setIsCompiling);
-  const setPdfData = useDocumentStore((s) => s.setPdfData);
-  const setCompileError = useDocumentStore((s) => s.setCompileError);
+  const compileDiagnostics = useDocumentStore((s) => s.compileDiagnostics);
+  const compileWarnings = useDocumentStore((s) => s.compileWarnings);
+  const lintSuppressions = useProjectStore(
+    (s) => s.projects.find((p) => p.id === s.activeProjectId)?.lintSuppressions,
+  );
+  const pendingChange = usePendingChangeStore(
+    (s) => s.changes.find((c) => c.fileId === activeFileId) ?? null,
+  );
 
   const activeFile = files.find((f) => f.id === activeFileId);
   const isTexFile = activeFile?.type === "tex";
@@ -263,7 +407,6 @@ export function LatexEditor() {
     }));
   }, [parsedLines, currentLine, lineHtmlCache]);
 
-  const compileRef = useRef<() => void>(() => {});
   const isSearchOpenRef = useRef(false);
 
   useEffect(() => {
@@ -335,23 +478,6 @@ export function LatexEditor() {
     view.focus();
   };
 
-  compileRef.current = async () => {
-    if (isCompiling) return;
-    setIsCompiling(true);
-    try {
-      const currentFiles = useDocumentStore.getState().files;
-      const resources = gatherResources(currentFiles);
-      const data = await compileLatex(resources);
-      setPdfData(data);
-    } catch (error) {
-      setCompileError(
-        error instanceof Error ? error.message : "Compilation failed",
-      );
-    } finally {
-      setIsCompiling(false);
-    }
-  };
-
   useEffect(() => {
     if (!containerRef.current || !isTexFile) return;
 
@@ -431,7 +557,24 @@ export function LatexEditor() {
         {
           key: "Mod-Enter",
           run: () => {
-            compileRef.current();
+            compileToPreview();
+            return true;
+          },
+        },
+        {
+          key: "Mod-Alt-j",
+          run: (view) => {
+            const { activeFileId, requestPdfSync } =
+              useDocumentStore.getState();
+            const line = view.state.doc.lineAt(view.state.selection.main.head);
+            requestPdfSync(activeFileId, line.number);
+            return true;
+          },
+        },
+        {
+          key: "Shift-Alt-f",
+          run: (view) => {
+            void formatDocument(view, "selection");
             return true;
           },
         },
@@ -467,10 +610,13 @@ export function LatexEditor() {
       extensions: [
         compileKeymap,
         lineNumbers(),
+        lintGutter(),
+        linter(lintActiveFile, { delay: LINT_DELAY_MS }),
         highlightActiveLine(),
         highlightActiveLineGutter(),
         history(),
         keymap.of([...defaultKeymap, ...historyKeymap]),
+        pendingDiffExtension,
         latex(),
         oneDark,
         syntaxHighlighting(oneDarkHighlightStyle),
@@ -558,6 +704,24 @@ export function LatexEditor() {
     }
   }, [activeFileContent, isTexFile]);
 
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !isTexFile) return;
+    showPendingDiff(view, pendingChange);
+  }, [pendingChange, activeFileContent, activeFileId, isTexFile]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !isTexFile) return;
+    forceLinting(view);
+  }, [
+    compileDiagnostics,
+    compileWarnings,
+    lintSuppressions,
+    activeFileId,
+    isTexFile,
+  ]);
+
   useEffect(() => {
     const view = viewRef.current;
     if (!view || jumpToPosition === null) return;
@@ -650,12 +814,94 @@ export function LatexEditor() {
           editorViewRef={viewRef}
           containerRef={containerRef}
         />
+        <SnippetPreview
+          parsedLines={parsedLines}
+          content={activeFileContent ?? ""}
+        />
         <AIDrawer />
       </div>
     </div>
   );
 }
 
+function SnippetPreview({
+  parsedLines,
+  content,
+}: {
+  parsedLines: ParsedLine[];
+  content: string;
+}) {
+  const cursorPosition = useDocumentStore((s) => s.cursorPosition);
+  const [image, setImage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  const snippet = useMemo(() => {
+    const cursorLine = content.slice(0, cursorPosition).split("\n").length;
+    const env = findPreviewEnvironment(parsedLines, cursorLine);
+    if (!env) return null;
+    return content
+      .split("\n")
+      .slice(env.startLine - 1, env.endLine)
+      .join("\n");
+  }, [parsedLines, cursorPosition, content]);
+
+  useEffect(() => {
+    setImage(null);
+    setError(null);
+    if (!snippet) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { files, mainFileId } = useDocumentStore.getState();
+      const { projects, activeProjectId } = useProjectStore.getState();
+      const mainContent = getMainFile(files, mainFileId)?.content ?? "";
+      const preambleEnd = mainContent.indexOf("\\begin{document}");
+      try {
+        const src = await renderSnippet(snippet, {
+          preamble: preambleEnd === -1 ? "" : mainContent.slice(0, preambleEnd),
+          compiler: projects.find((p) => p.id === activeProjectId)?.compiler,
+        });
+        if (!cancelled) setImage(src);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof LatexCompileError && err.diagnostics.length > 0
+              ? err.diagnostics[0].message
+              : "预览失败",
+          );
+        }
+      }
+    }, SNIPPET_PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [snippet]);
+
+  if (!snippet || snippet === dismissed) return null;
+
+  return (
+    <div className="absolute right-3 bottom-3 z-20 max-h-[40%] max-w-[60%] overflow-auto rounded-md border border-border bg-white p-2 shadow-lg">
+      <button
+        type="button"
+        className="absolute top-1 right-1 text-muted-foreground hover:text-foreground"
+        onClick={() => setDismissed(snippet)}
+      >
+        <XIcon className="size-3.5" />
+      </button>
+      {image ? (
+        <img src={image} alt="预览" className="max-w-full" />
+      ) : error ? (
+        <p className="pr-4 text-destructive text-xs">{error}</p>
+      ) : (
+        <Loader2Icon className="m-2 size-4 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
 function SelectionOptimizeBar({
   editorViewRef,
   containerRef,
@@ -665,8 +911,6 @@ function SelectionOptimizeBar({
 }) {
   const selectionRange = useDocumentStore((s) => s.selectionRange);
   const content = useDocumentStore((s) => s.content);
-  const replaceSelection = useDocumentStore((s) => s.replaceSelection);
-  const findAndReplace = useDocumentStore((s) => s.findAndReplace);
 
   const providers = useSettingsStore((s) => s.providers);
   const activeProviderId = useSettingsStore((s) => s.activeProviderId);
@@ -857,11 +1101,7 @@ function SelectionOptimizeBar({
               instructions,
               stream: true,
             },
-            config: {
-              apiKey: activeProvider.apiKey || undefined,
-              baseUrl: activeProvider.baseUrl || undefined,
-              modelName: activeModel.modelName || undefined,
-            },
+            config: toModelRequestConfig(activeProvider, activeModel),
           }),
         });
 
@@ -977,66 +1217,39 @@ function SelectionOptimizeBar({
     if (!preview) return;
     if (preview.status !== "ready") return;
     const { start, end, original, next } = preview;
-    const view = editorViewRef.current;
-    const currentDoc =
-      view?.state.doc.toString() ?? useDocumentStore.getState().content;
-    const stillMatches = currentDoc.slice(start, end) === original;
-
-    if (stillMatches) {
-      if (view) {
-        view.dispatch({
-          changes: { from: start, to: end, insert: next },
-          selection: { anchor: start + next.length },
-        });
-        view.focus();
-      } else {
-        replaceSelection(start, end, next);
-      }
-      setPreview(null);
-      setInstructionInput("");
-      toast.success("已应用到正文");
-      return;
-    }
 
-    const findNearestRange = () => {
-      const source = currentDoc;
-      const needle = original;
-      if (!needle) return null;
-      const windowStart = Math.max(0, start - 2000);
-      const windowEnd = Math.min(source.length, start + 2000);
-      const localIndex = source.slice(windowStart, windowEnd).indexOf(needle);
-      if (localIndex !== -1) {
-        const from = windowStart + localIndex;
-        return { from, to: from + needle.length };
-      }
-      const globalIndex = source.indexOf(needle);
-      if (globalIndex !== -1) {
-        return { from: globalIndex, to: globalIndex + needle.length };
-      }
-      return null;
+    const findNearestRange = (source: string, from: number) => {
+      if (!original) return null;
+      const windowStart = Math.max(0, from - 2000);
+      const windowEnd = Math.min(source.length, from + 2000);
+      const localIndex = source.slice(windowStart, windowEnd).indexOf(original);
+      if (localIndex !== -1) return windowStart + localIndex;
+      const globalIndex = source.indexOf(original);
+      return globalIndex !== -1 ? globalIndex : null;
     };
 
-    const nearest = findNearestRange();
-    if (nearest && view) {
-      view.dispatch({
-        changes: { from: nearest.from, to: nearest.to, insert: next },
-        selection: { anchor: nearest.from + next.length },
-      });
-      view.focus();
-      setPreview(null);
-      setInstructionInput("");
-      toast.success("已应用到正文");
-      return;
-    }
-
-    const ok = findAndReplace(original, next);
-    if (!ok) {
+    const { activeFileId } = useDocumentStore.getState();
+    const result = stageFileEdit(activeFileId, modeLabel, (source, mapPos) => {
+      const from = mapPos(start);
+      const to = mapPos(end);
+      if (source.slice(from, to) === original) {
+        return source.slice(0, from) + next + source.slice(to);
+      }
+      const nearest = findNearestRange(source, from);
+      if (nearest === null) return replaceFirstMatch(source, original, next);
+      return (
+        source.slice(0, nearest) +
+        next +
+        source.slice(nearest + original.length)
+      );
+    });
+    if (!result.ok) {
       toast.error("正文已变化，无法自动应用替换");
       return;
     }
     setPreview(null);
     setInstructionInput("");
-    toast.success("已应用到正文");
+    toast.success("已在编辑器中标出修改，请逐块接受或拒绝");
   };
 
   const modeLabel =
@@ -1369,7 +1582,7 @@ function SelectionOptimizeBar({
               disabled={preview?.status !== "ready"}
               onClick={applyPreview}
             >
-              使用优化后
+              在编辑器中审阅
             </Button>
           </DialogFooter>
         </DialogContent>
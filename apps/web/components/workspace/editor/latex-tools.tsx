@@ -3,36 +3,269 @@
 import { useAssistantTool } from "@assistant-ui/react";
 import {
   CheckIcon,
+  FilePenIcon,
+  FileCogIcon,
+  FilePlusIcon,
+  FileTextIcon,
+  FolderTreeIcon,
   LoaderIcon,
+  type LucideIcon,
+  PackageIcon,
   PlusIcon,
   ReplaceIcon,
   SearchIcon,
+  TextCursorInputIcon,
+  Undo2Icon,
+  XIcon,
 } from "lucide-react";
-import type { FC } from "react";
+import { type FC, useState } from "react";
+import { toast } from "sonner";
 import { z } from "zod";
 
-import { useDocumentStore } from "@/stores/document-store";
+import { Button } from "@/components/ui/button";
+import { checkTexAvailability } from "@/lib/latex-compiler";
+import { countChangedLines } from "@/lib/line-diff";
+import {
+  findFileByPath,
+  getFilePath,
+  getMainFile,
+  useDocumentStore,
+  usePendingChangeStore,
+} from "@/stores/document-store";
+import { compileForAssistant } from "./assistant-compile";
+import {
+  appendToFile,
+  createFile,
+  editFile,
+  type FileEditResult,
+  proposeFindAndReplace,
+  proposeInsert,
+  proposeSelectionReplace,
+  renameFile,
+} from "./assistant-file-edits";
+import {
+  acceptChange,
+  canUndoChange,
+  getChangeHunks,
+  getChangeOutcome,
+  rejectChange,
+  revealChange,
+  undoAcceptedChange,
+} from "./pending-changes";
 
-export const LatexTools: FC = () => {
-  const insertAtCursor = useDocumentStore((s) => s.insertAtCursor);
-  const replaceSelection = useDocumentStore((s) => s.replaceSelection);
-  const findAndReplace = useDocumentStore((s) => s.findAndReplace);
-  const selectionRange = useDocumentStore((s) => s.selectionRange);
+const outcomeLabels = {
+  accepted: "accepted",
+  rejected: "rejected",
+  mixed: "partially accepted",
+} as const;
+
+const ReviewControls: FC<{ changeId: string }> = ({ changeId }) => {
+  const change = usePendingChangeStore(
+    (s) => s.changes.find((c) => c.id === changeId) ?? null,
+  );
+  const [undone, setUndone] = useState(false);
+
+  if (!change) {
+    const outcome = getChangeOutcome(changeId);
+    const handleUndo = () => {
+      const error = undoAcceptedChange(changeId);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setUndone(true);
+    };
+    return (
+      <div className="flex items-center gap-1">
+        <span className="text-muted-foreground text-xs">
+          {undone ? "undone" : outcome ? outcomeLabels[outcome] : "resolved"}
+        </span>
+        {!undone && canUndoChange(changeId) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={handleUndo}
+          >
+            <Undo2Icon className="size-3" />
+            Undo
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const { added, removed } = countChangedLines(
+    change.base,
+    getChangeHunks(change),
+  );
+  const handleAcceptAll = () => {
+    const error = acceptChange(changeId);
+    if (error) toast.error(error);
+  };
 
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-green-600 text-xs">+{added}</span>
+      <span className="text-red-600 text-xs">-{removed}</span>
+      {!change.create && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => revealChange(changeId)}
+        >
+          Review
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 gap-1 px-2 text-xs"
+        onClick={handleAcceptAll}
+      >
+        <CheckIcon className="size-3" />
+        Accept all
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 gap-1 px-2 text-xs"
+        onClick={() => rejectChange(changeId)}
+      >
+        <XIcon className="size-3" />
+        Reject all
+      </Button>
+    </div>
+  );
+};
+
+const FileEditRow: FC<{
+  icon: LucideIcon;
+  pending: string;
+  action?: string;
+  result: FileEditResult | undefined;
+}> = ({ icon: Icon, pending, action = "Edit to", result }) => {
+  const isComplete = result != null;
+
+  return (
+    <div className="my-2 flex items-center gap-2 rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
+      {isComplete ? (
+        result.success ? (
+          <CheckIcon className="size-4 text-green-600" />
+        ) : (
+          <span className="size-4 text-amber-600">!</span>
+        )
+      ) : (
+        <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
+      )}
+      <Icon className="size-4 text-muted-foreground" />
+      <span className="flex-1 truncate text-muted-foreground">
+        {!isComplete
+          ? pending
+          : result.success
+            ? `${action} ${result.path}`
+            : result.error}
+      </span>
+      {result?.success && <ReviewControls changeId={result.changeId} />}
+    </div>
+  );
+};
+
+export const LatexTools: FC = () => {
   useAssistantTool({
     toolName: "insert_latex",
     description:
-      "Insert LaTeX code at the current cursor position in the document",
+      "Propose inserting LaTeX code at the current cursor position in the document. The user reviews the change before it is applied.",
     parameters: z.object({
       code: z
         .string()
         .describe("The LaTeX code to insert at the cursor position"),
     }),
-    execute: async ({ code }: { code: string }) => {
-      insertAtCursor(code);
-      return { success: true, message: "Code inserted at cursor position" };
-    },
+    execute: async ({ code }: { code: string }): Promise<FileEditResult> =>
+      proposeInsert(code),
     render: function InsertLatexRender({ result }) {
+      return (
+        <FileEditRow
+          icon={PlusIcon}
+          pending="Inserting LaTeX code..."
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "replace_selection",
+    description:
+      "Propose replacing the currently selected text in the document with LaTeX code. The user reviews the change before it is applied.",
+    parameters: z.object({
+      code: z.string().describe("The LaTeX code to replace the selection with"),
+    }),
+    execute: async ({ code }: { code: string }): Promise<FileEditResult> =>
+      proposeSelectionReplace(code),
+    render: function ReplaceSelectionRender({ result }) {
+      return (
+        <FileEditRow
+          icon={ReplaceIcon}
+          pending="Replacing selection..."
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "find_and_replace",
+    description:
+      "Propose finding and replacing text in the document. Use this to modify existing content. The user reviews the change before it is applied.",
+    parameters: z.object({
+      find: z.string().describe("The exact text to find in the document"),
+      replace: z.string().describe("The text to replace it with"),
+    }),
+    execute: async ({
+      find,
+      replace,
+    }: {
+      find: string;
+      replace: string;
+    }): Promise<FileEditResult> => proposeFindAndReplace(find, replace),
+    render: function FindAndReplaceRender({ result }) {
+      return (
+        <FileEditRow
+          icon={SearchIcon}
+          pending="Finding and replacing..."
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "list_files",
+    description:
+      "List every file in the project with its path, type and line count. The main file is the one that gets compiled.",
+    parameters: z.object({}),
+    execute: async () => {
+      const { files, mainFileId, activeFileId } = useDocumentStore.getState();
+      const mainFile = getMainFile(files, mainFileId);
+      return {
+        success: true,
+        files: files
+          .filter((file) => file.type !== "folder")
+          .map((file) => ({
+            path: getFilePath(files, file),
+            type: file.type,
+            main: file.id === mainFile?.id,
+            active: file.id === activeFileId,
+            lines:
+              file.type === "tex"
+                ? (file.content ?? "").split("\n").length
+                : undefined,
+          })),
+      };
+    },
+    render: function ListFilesRender({ result }) {
       const isComplete = result != null;
       return (
         <div className="my-2 flex items-center gap-2 rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
@@ -41,9 +274,11 @@ export const LatexTools: FC = () => {
           ) : (
             <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
           )}
-          <PlusIcon className="size-4 text-muted-foreground" />
+          <FolderTreeIcon className="size-4 text-muted-foreground" />
           <span className="text-muted-foreground">
-            {isComplete ? "Inserted LaTeX code" : "Inserting LaTeX code..."}
+            {isComplete
+              ? `Listed ${result.files.length} files`
+              : "Listing project files..."}
           </span>
         </div>
       );
@@ -51,23 +286,28 @@ export const LatexTools: FC = () => {
   });
 
   useAssistantTool({
-    toolName: "replace_selection",
+    toolName: "read_file",
     description:
-      "Replace the currently selected text in the document with LaTeX code",
+      "Read the full content of a LaTeX file in the project by its path, e.g. chapters/intro.tex.",
     parameters: z.object({
-      code: z.string().describe("The LaTeX code to replace the selection with"),
+      path: z.string().describe("The file path relative to the project root"),
     }),
-    execute: async ({ code }: { code: string }) => {
-      if (!selectionRange) {
-        return {
-          success: false,
-          error: "No text is currently selected in the editor",
-        };
+    execute: async ({ path }: { path: string }) => {
+      const { files } = useDocumentStore.getState();
+      const file = findFileByPath(files, path);
+      if (!file) {
+        return { success: false, error: `File "${path}" does not exist` };
       }
-      replaceSelection(selectionRange.start, selectionRange.end, code);
-      return { success: true, message: "Selection replaced with code" };
+      if (file.type !== "tex") {
+        return { success: false, error: `"${path}" is not a text file` };
+      }
+      return {
+        success: true,
+        path: getFilePath(files, file),
+        content: file.content ?? "",
+      };
     },
-    render: function ReplaceSelectionRender({ result }) {
+    render: function ReadFileRender({ args, result }) {
       const isComplete = result != null;
       const hasError = result?.success === false;
       return (
@@ -81,13 +321,13 @@ export const LatexTools: FC = () => {
           ) : (
             <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
           )}
-          <ReplaceIcon className="size-4 text-muted-foreground" />
+          <FileTextIcon className="size-4 text-muted-foreground" />
           <span className="text-muted-foreground">
             {hasError
               ? result.error
               : isComplete
-                ? "Replaced selection"
-                : "Replacing selection..."}
+                ? `Read ${result.path}`
+                : `Reading ${args?.path ?? "file"}...`}
           </span>
         </div>
       );
@@ -95,30 +335,190 @@ export const LatexTools: FC = () => {
   });
 
   useAssistantTool({
-    toolName: "find_and_replace",
+    toolName: "create_file",
     description:
-      "Find and replace text in the document. Use this to modify existing content.",
+      "Propose creating a new text file in the project, e.g. chapters/results.tex or references.bib. Missing folders are created. Fails if the file already exists. The file is only created once the user accepts it, but edit_file and append_to_file already work on it.",
     parameters: z.object({
-      find: z.string().describe("The exact text to find in the document"),
+      path: z
+        .string()
+        .describe("The new file path relative to the project root"),
+      content: z.string().describe("The full content of the new file"),
+    }),
+    execute: async ({
+      path,
+      content,
+    }: {
+      path: string;
+      content: string;
+    }): Promise<FileEditResult> => createFile(path, content),
+    render: function CreateFileRender({ args, result }) {
+      return (
+        <FileEditRow
+          icon={FilePlusIcon}
+          pending={`Creating ${args?.path ?? "file"}...`}
+          action="Create"
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "edit_file",
+    description:
+      "Propose replacing the first occurrence of exact text in any text file of the project. Use read_file first so the find text matches exactly. The user reviews the change before it is applied.",
+    parameters: z.object({
+      path: z.string().describe("The file path relative to the project root"),
+      find: z.string().describe("The exact text to find in the file"),
       replace: z.string().describe("The text to replace it with"),
     }),
-    execute: async ({ find, replace }: { find: string; replace: string }) => {
-      const success = findAndReplace(find, replace);
-      if (!success) {
-        return {
-          success: false,
-          error: `Could not find "${find}" in the document`,
-        };
+    execute: async ({
+      path,
+      find,
+      replace,
+    }: {
+      path: string;
+      find: string;
+      replace: string;
+    }): Promise<FileEditResult> => editFile(path, find, replace),
+    render: function EditFileRender({ args, result }) {
+      return (
+        <FileEditRow
+          icon={FilePenIcon}
+          pending={`Editing ${args?.path ?? "file"}...`}
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "append_to_file",
+    description:
+      "Propose appending text to the end of a text file in the project, e.g. a new entry in references.bib. The user reviews the change before it is applied.",
+    parameters: z.object({
+      path: z.string().describe("The file path relative to the project root"),
+      content: z.string().describe("The text to append"),
+    }),
+    execute: async ({
+      path,
+      content,
+    }: {
+      path: string;
+      content: string;
+    }): Promise<FileEditResult> => appendToFile(path, content),
+    render: function AppendToFileRender({ args, result }) {
+      return (
+        <FileEditRow
+          icon={PlusIcon}
+          pending={`Appending to ${args?.path ?? "file"}...`}
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "rename_file",
+    description:
+      "Propose renaming a file in the project without moving it to another folder. The file keeps its old name until the user accepts the change. Remember to update any \\input or \\include that refers to it.",
+    parameters: z.object({
+      path: z
+        .string()
+        .describe("The current file path relative to the project root"),
+      newName: z.string().describe("The new file name, without folders"),
+    }),
+    execute: async ({
+      path,
+      newName,
+    }: {
+      path: string;
+      newName: string;
+    }): Promise<FileEditResult> => renameFile(path, newName),
+    render: function RenameFileRender({ args, result }) {
+      return (
+        <FileEditRow
+          icon={TextCursorInputIcon}
+          pending={`Renaming ${args?.path ?? "file"}...`}
+          action="Rename to"
+          result={result}
+        />
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "compile_project",
+    description:
+      "Compile the whole project, including every edit still waiting for the user's review, and return the compile errors. Use it to find errors and to check that your fixes build.",
+    parameters: z.object({}),
+    execute: async () => compileForAssistant(),
+    render: function CompileProjectRender({ result }) {
+      const isComplete = result != null;
+      return (
+        <div className="my-2 flex items-center gap-2 rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
+          {isComplete ? (
+            result.success ? (
+              <CheckIcon className="size-4 text-green-600" />
+            ) : (
+              <span className="size-4 text-amber-600">!</span>
+            )
+          ) : (
+            <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
+          )}
+          <FileCogIcon className="size-4 text-muted-foreground" />
+          <span className="text-muted-foreground">
+            {!isComplete
+              ? "Compiling project..."
+              : result.success
+                ? "Build succeeded"
+                : `Build failed with ${result.errors.length} errors`}
+          </span>
+        </div>
+      );
+    },
+  });
+
+  useAssistantTool({
+    toolName: "check_packages",
+    description:
+      "Check whether LaTeX packages or document classes are installed on the compile server. Use this before suggesting a package the document does not already load.",
+    parameters: z.object({
+      packages: z
+        .array(z.string())
+        .describe("Package names, as used in \\usepackage"),
+      classes: z
+        .array(z.string())
+        .optional()
+        .describe("Document class names, as used in \\documentclass"),
+    }),
+    execute: async ({
+      packages,
+      classes,
+    }: {
+      packages: string[];
+      classes?: string[];
+    }) => {
+      const availability = await checkTexAvailability({ packages, classes });
+      if (!availability) {
+        return { success: false, error: "Package lookup failed" };
       }
-      return { success: true, message: `Replaced "${find}" with "${replace}"` };
+      return {
+        success: true,
+        packages: availability.packages,
+        classes: availability.classes,
+      };
     },
-    render: function FindAndReplaceRender({ result }) {
+    render: function CheckPackagesRender({ args, result }) {
       const isComplete = result != null;
       const hasError = result?.success === false;
+      const missing = Object.entries(result?.packages ?? {})
+        .filter(([, available]) => !available)
+        .map(([name]) => name);
       return (
         <div className="my-2 flex items-center gap-2 rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm">
           {isComplete ? (
-            hasError ? (
+            hasError || missing.length > 0 ? (
               <span className="size-4 text-amber-600">!</span>
             ) : (
               <CheckIcon className="size-4 text-green-600" />
@@ -126,13 +526,15 @@ export const LatexTools: FC = () => {
           ) : (
             <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
           )}
-          <SearchIcon className="size-4 text-muted-foreground" />
+          <PackageIcon className="size-4 text-muted-foreground" />
           <span className="text-muted-foreground">
             {hasError
               ? result.error
               : isComplete
-                ? "Text replaced"
-                : "Finding and replacing..."}
+                ? missing.length > 0
+                  ? `Not installed: ${missing.join(", ")}`
+                  : "All packages available"
+                : `Checking ${args?.packages?.join(", ") ?? "packages"}...`}
           </span>
         </div>
       );
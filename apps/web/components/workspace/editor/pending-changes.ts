@@ -0,0 +1,544 @@
+import { type EditorState, StateEffect, StateField } from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  WidgetType,
+} from "@codemirror/view";
+import { toast } from "sonner";
+import { applyHunks, type DiffHunk, diffLines } from "@/lib/line-diff";
+import {
+  findFileByPath,
+  generateId,
+  type PendingChange,
+  useDocumentStore,
+  usePendingChangeStore,
+  useUiStore,
+} from "@/stores/document-store";
+
+export type ChangeOutcome = "accepted" | "rejected" | "mixed";
+
+type StageResult =
+  | { ok: true; changeId: string }
+  | { ok: false; error: string };
+
+interface AcceptedEdit {
+  fileId: string;
+  before: string;
+  after: string;
+  renamedFrom?: string;
+  renamedTo?: string;
+  createdFolderIds?: string[];
+}
+
+const outcomes = new Map<string, { accepted: number; rejected: number }>();
+// What each accepted change did, so that it can be undone as one step even
+// when the file is not open in the editor.
+const acceptedEdits = new Map<string, AcceptedEdit>();
+
+function getFile(fileId: string) {
+  return useDocumentStore.getState().files.find((f) => f.id === fileId) ?? null;
+}
+
+function findChange(changeId: string) {
+  return (
+    usePendingChangeStore.getState().changes.find((c) => c.id === changeId) ??
+    null
+  );
+}
+
+function tally(changeId: string, kind: "accepted" | "rejected") {
+  const counts = outcomes.get(changeId) ?? { accepted: 0, rejected: 0 };
+  counts[kind]++;
+  outcomes.set(changeId, counts);
+}
+
+export function getChangeOutcome(changeId: string): ChangeOutcome | null {
+  const counts = outcomes.get(changeId);
+  if (!counts || findChange(changeId)) return null;
+  if (counts.rejected === 0) return "accepted";
+  return counts.accepted === 0 ? "rejected" : "mixed";
+}
+
+export function getChangeHunks(change: PendingChange): DiffHunk[] {
+  return diffLines(change.base, change.proposed);
+}
+
+export function isChangeStale(change: PendingChange) {
+  return (getFile(change.fileId)?.content ?? "") !== change.base;
+}
+
+function getAcceptError(change: PendingChange) {
+  if (isChangeStale(change)) return "文件在审阅期间已修改，请拒绝后重新生成";
+  const { files } = useDocumentStore.getState();
+  if (change.create && findFileByPath(files, change.create)) {
+    return "同名文件已存在，请拒绝后重新生成";
+  }
+  const file = getFile(change.fileId);
+  const renameTaken =
+    change.rename &&
+    files.some(
+      (f) =>
+        f.id !== change.fileId &&
+        f.name === change.rename &&
+        (f.parentId ?? null) === (file?.parentId ?? null),
+    );
+  return renameTaken ? "同名文件已存在，请拒绝后重新生成" : null;
+}
+
+function createProjectFile(path: string, content: string) {
+  const segments = path.split("/");
+  const name = segments.pop() ?? path;
+  const { addFolder } = useDocumentStore.getState();
+  const folderIds: string[] = [];
+  let parentId: string | null = null;
+  for (const segment of segments) {
+    const { files } = useDocumentStore.getState();
+    const existing = files.find(
+      (f) =>
+        f.type === "folder" &&
+        f.name === segment &&
+        (f.parentId ?? null) === parentId,
+    );
+    if (existing) {
+      parentId = existing.id;
+      continue;
+    }
+    parentId = addFolder(segment, parentId);
+    folderIds.push(parentId);
+  }
+  const fileId = useDocumentStore
+    .getState()
+    .addFile({ name, type: "tex", parentId, content });
+  return { fileId, folderIds };
+}
+
+function mapPosition(hunks: DiffHunk[], position: number) {
+  let delta = 0;
+  for (const hunk of hunks) {
+    if (hunk.to <= position && hunk.from < position) {
+      delta += hunk.insert.length - (hunk.to - hunk.from);
+    } else if (hunk.from < position) {
+      return hunk.from + delta + hunk.insert.length;
+    }
+  }
+  return position + delta;
+}
+
+export function replaceFirstMatch(
+  content: string,
+  find: string,
+  replace: string,
+): string | null {
+  if (!find) return null;
+  if (content.includes(find)) return content.replace(find, () => replace);
+  if (find.trim().length < 16) return null;
+
+  const escapeRegExp = (value: string) =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const tokens = find.trim().split(/\s+/).map(escapeRegExp);
+  if (tokens.length < 3) return null;
+  const regex = new RegExp(tokens.join("\\s+"), "m");
+  return regex.test(content) ? content.replace(regex, () => replace) : null;
+}
+
+/**
+ * Stages an edit for review instead of writing it to the file. Edits to a
+ * file that already has a pending change are folded into that change, and
+ * `edit` receives the proposed content plus a mapper from file offsets to
+ * proposed offsets.
+ */
+export function stageFileEdit(
+  fileId: string,
+  source: string,
+  edit: (content: string, mapPos: (pos: number) => number) => string | null,
+  failure = "The edit did not apply",
+): StageResult {
+  const file = getFile(fileId);
+  const store = usePendingChangeStore.getState();
+  let existing = store.changes.find((c) => c.fileId === fileId) ?? null;
+  if (!existing?.create && (!file || file.type !== "tex")) {
+    return { ok: false, error: "The file is not a text file" };
+  }
+  if (existing && isChangeStale(existing)) {
+    store.removeChange(existing.id);
+    existing = null;
+  }
+
+  const base = file?.content ?? "";
+  const current = existing?.proposed ?? base;
+  const hunks = existing ? getChangeHunks(existing) : [];
+  const next = edit(current, (pos) => mapPosition(hunks, pos));
+  if (next === null) return { ok: false, error: failure };
+  if (next === current) return { ok: false, error: "The edit changes nothing" };
+
+  if (!existing) {
+    return {
+      ok: true,
+      changeId: store.stageChange({ fileId, source, base, proposed: next }),
+    };
+  }
+  if (next === base && !existing.create && !existing.rename) {
+    store.removeChange(existing.id);
+  } else {
+    store.updateChange(existing.id, { proposed: next });
+  }
+  return { ok: true, changeId: existing.id };
+}
+
+export function stageFileCreate(
+  path: string,
+  source: string,
+  content: string,
+): StageResult {
+  const changeId = usePendingChangeStore.getState().stageChange({
+    fileId: generateId(),
+    source,
+    base: "",
+    proposed: content,
+    create: path,
+  });
+  return { ok: true, changeId };
+}
+
+export function stageFileRename(
+  fileId: string,
+  source: string,
+  name: string,
+): StageResult {
+  const file = getFile(fileId);
+  if (!file) return { ok: false, error: "The file does not exist" };
+  const store = usePendingChangeStore.getState();
+  let existing = store.changes.find((c) => c.fileId === fileId) ?? null;
+  if (existing && isChangeStale(existing)) {
+    store.removeChange(existing.id);
+    existing = null;
+  }
+
+  const rename = name === file.name ? undefined : name;
+  if (!existing) {
+    if (!rename) return { ok: false, error: "The file already has that name" };
+    const content = file.content ?? "";
+    return {
+      ok: true,
+      changeId: store.stageChange({
+        fileId,
+        source,
+        base: content,
+        proposed: content,
+        rename,
+      }),
+    };
+  }
+  if (existing.rename === rename) {
+    return { ok: false, error: "The edit changes nothing" };
+  }
+  if (!rename && existing.proposed === existing.base) {
+    store.removeChange(existing.id);
+  } else {
+    store.updateChange(existing.id, { rename });
+  }
+  return { ok: true, changeId: existing.id };
+}
+
+function writeAccepted(
+  change: PendingChange,
+  nextBase: string,
+  view?: EditorView,
+) {
+  const store = usePendingChangeStore.getState();
+  const complete = nextBase === change.proposed;
+  if (complete) {
+    store.removeChange(change.id);
+  } else {
+    store.updateChange(change.id, { base: nextBase });
+  }
+
+  if (change.create) {
+    const { fileId, folderIds } = createProjectFile(change.create, nextBase);
+    acceptedEdits.set(change.id, {
+      fileId,
+      before: "",
+      after: nextBase,
+      createdFolderIds: folderIds,
+    });
+    return;
+  }
+
+  const previous = acceptedEdits.get(change.id);
+  const record: AcceptedEdit = {
+    ...previous,
+    fileId: change.fileId,
+    before: previous?.before ?? change.base,
+    after: nextBase,
+  };
+  if (complete && change.rename) {
+    record.renamedFrom = getFile(change.fileId)?.name;
+    record.renamedTo = change.rename;
+    useDocumentStore.getState().renameFile(change.fileId, change.rename);
+  }
+  acceptedEdits.set(change.id, record);
+  if (nextBase === change.base) return;
+
+  // In the open editor the change goes in as one transaction so that a single
+  // undo reverts it; other files are written straight to the store.
+  const isOpen =
+    useDocumentStore.getState().activeFileId === change.fileId &&
+    view?.state.doc.toString() === change.base;
+  if (view && isOpen) {
+    view.dispatch({
+      changes: diffLines(change.base, nextBase).map((hunk) => ({
+        from: hunk.from,
+        to: hunk.to,
+        insert: hunk.insert,
+      })),
+      userEvent: "input.review",
+    });
+    return;
+  }
+  useDocumentStore.getState().updateFileContent(change.fileId, nextBase);
+}
+
+export function acceptHunk(
+  changeId: string,
+  index: number,
+  view?: EditorView,
+): string | null {
+  const change = findChange(changeId);
+  if (!change) return "该修改已处理";
+  // A new file is created whole, so its single hunk stands for the change.
+  if (change.create) return acceptChange(changeId, view);
+  const error = getAcceptError(change);
+  if (error) return error;
+  const hunk = getChangeHunks(change)[index];
+  if (!hunk) return "该修改已处理";
+  tally(changeId, "accepted");
+  writeAccepted(change, applyHunks(change.base, [hunk]), view);
+  return null;
+}
+
+export function rejectHunk(changeId: string, index: number) {
+  const change = findChange(changeId);
+  if (!change) return;
+  if (change.create) return rejectChange(changeId);
+  const remaining = getChangeHunks(change).filter((_, i) => i !== index);
+  tally(changeId, "rejected");
+  const proposed = applyHunks(change.base, remaining);
+  const store = usePendingChangeStore.getState();
+  if (proposed === change.base && !change.rename) {
+    store.removeChange(changeId);
+  } else {
+    store.updateChange(changeId, { proposed });
+  }
+}
+
+export function acceptChange(changeId: string, view?: EditorView) {
+  const change = findChange(changeId);
+  if (!change) return "该修改已处理";
+  const error = getAcceptError(change);
+  if (error) return error;
+  tally(changeId, "accepted");
+  writeAccepted(change, change.proposed, view);
+  return null;
+}
+
+export function canUndoChange(changeId: string) {
+  return acceptedEdits.has(changeId);
+}
+
+/** Reverts everything accepted from a change, including new files and renames. */
+export function undoAcceptedChange(changeId: string): string | null {
+  const edit = acceptedEdits.get(changeId);
+  if (!edit) return "该操作已无法撤销";
+  const state = useDocumentStore.getState();
+  const file = getFile(edit.fileId);
+  if (!file) return "文件已被删除";
+  if ((file.content ?? "") !== edit.after) return "文件已被修改，无法撤销";
+  if (edit.renamedTo && file.name !== edit.renamedTo) {
+    return "文件已被再次重命名，无法撤销";
+  }
+
+  if (edit.createdFolderIds) {
+    state.deleteFile(file.id);
+    for (const folderId of [...edit.createdFolderIds].reverse()) {
+      const { files, deleteFile } = useDocumentStore.getState();
+      if (!files.some((f) => f.parentId === folderId)) deleteFile(folderId);
+    }
+  } else {
+    if (edit.renamedFrom) state.renameFile(file.id, edit.renamedFrom);
+    if (edit.before !== edit.after) {
+      state.updateFileContent(file.id, edit.before);
+    }
+  }
+  acceptedEdits.delete(changeId);
+  return null;
+}
+
+export function rejectChange(changeId: string) {
+  if (!findChange(changeId)) return;
+  tally(changeId, "rejected");
+  usePendingChangeStore.getState().removeChange(changeId);
+}
+
+export function revealChange(changeId: string) {
+  const change = findChange(changeId);
+  if (!change || change.create) return;
+  const { activeFileId, setActiveFile, requestJumpToPosition } =
+    useDocumentStore.getState();
+  useUiStore.getState().setCenterView("editor");
+  if (activeFileId !== change.fileId) setActiveFile(change.fileId);
+  const first = getChangeHunks(change)[0];
+  if (first) requestJumpToPosition(first.from);
+}
+
+const setPendingDiff = StateEffect.define<{
+  changeId: string;
+  hunks: DiffHunk[];
+} | null>();
+
+class HunkWidget extends WidgetType {
+  constructor(
+    readonly changeId: string,
+    readonly index: number,
+    readonly insert: string,
+  ) {
+    super();
+  }
+
+  eq(other: HunkWidget) {
+    return (
+      other.changeId === this.changeId &&
+      other.index === this.index &&
+      other.insert === this.insert
+    );
+  }
+
+  toDOM(view: EditorView) {
+    const wrap = document.createElement("div");
+    wrap.className = "cm-pending-hunk";
+    if (this.insert) {
+      const inserted = document.createElement("div");
+      inserted.className = "cm-pending-inserted";
+      inserted.textContent = this.insert.replace(/\n$/, "");
+      wrap.appendChild(inserted);
+    }
+
+    const actions = document.createElement("div");
+    actions.className = "cm-pending-actions";
+    const button = (label: string, className: string, run: () => void) => {
+      const el = document.createElement("button");
+      el.type = "button";
+      el.textContent = label;
+      el.className = className;
+      el.onmousedown = (event) => event.preventDefault();
+      el.onclick = run;
+      actions.appendChild(el);
+    };
+    button("接受", "cm-pending-accept", () => {
+      const error = acceptHunk(this.changeId, this.index, view);
+      if (error) toast.error(error);
+    });
+    button("拒绝", "cm-pending-reject", () => {
+      rejectHunk(this.changeId, this.index);
+    });
+    wrap.appendChild(actions);
+    return wrap;
+  }
+
+  ignoreEvent() {
+    return true;
+  }
+}
+
+function buildDecorations(
+  state: EditorState,
+  value: { changeId: string; hunks: DiffHunk[] },
+) {
+  const { doc } = state;
+  const ranges = value.hunks.flatMap((hunk, index) => {
+    const lines = [];
+    for (let pos = hunk.from; pos < hunk.to; ) {
+      const line = doc.lineAt(pos);
+      lines.push(
+        Decoration.line({ class: "cm-pending-deleted" }).range(line.from),
+      );
+      pos = line.to + 1;
+    }
+    const atLineStart =
+      hunk.to === 0 || doc.sliceString(hunk.to - 1, hunk.to) === "\n";
+    const widget = Decoration.widget({
+      widget: new HunkWidget(value.changeId, index, hunk.insert),
+      block: true,
+      side: atLineStart ? -1 : 1,
+    }).range(hunk.to);
+    return [...lines, widget];
+  });
+  return Decoration.set(ranges, true);
+}
+
+const pendingDiffField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setPendingDiff)) {
+        return effect.value
+          ? buildDecorations(tr.state, effect.value)
+          : Decoration.none;
+      }
+    }
+    // Offsets are only valid against the staged base; the editor re-sends
+    // the diff once the store has caught up with the edit.
+    return tr.docChanged ? Decoration.none : decorations;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+const pendingDiffTheme = EditorView.baseTheme({
+  ".cm-pending-deleted": {
+    backgroundColor: "rgba(239, 68, 68, 0.18)",
+    textDecoration: "line-through",
+    textDecorationColor: "rgba(239, 68, 68, 0.6)",
+  },
+  ".cm-pending-hunk": {
+    borderLeft: "2px solid #22c55e",
+    margin: "2px 0",
+  },
+  ".cm-pending-inserted": {
+    backgroundColor: "rgba(34, 197, 94, 0.18)",
+    whiteSpace: "pre-wrap",
+    padding: "0 6px",
+  },
+  ".cm-pending-actions": {
+    display: "flex",
+    gap: "6px",
+    padding: "2px 6px",
+    fontFamily: "sans-serif",
+    fontSize: "12px",
+  },
+  ".cm-pending-actions button": {
+    borderRadius: "4px",
+    padding: "0 8px",
+    cursor: "pointer",
+  },
+  ".cm-pending-accept": {
+    backgroundColor: "#16a34a",
+    color: "#fff",
+  },
+  ".cm-pending-reject": {
+    border: "1px solid rgba(148, 163, 184, 0.5)",
+  },
+});
+
+export const pendingDiffExtension = [pendingDiffField, pendingDiffTheme];
+
+export function showPendingDiff(
+  view: EditorView,
+  change: PendingChange | null,
+) {
+  const visible = change && view.state.doc.toString() === change.base;
+  view.dispatch({
+    effects: setPendingDiff.of(
+      visible ? { changeId: change.id, hunks: getChangeHunks(change) } : null,
+    ),
+  });
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { LoaderIcon, TypeIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  countWords,
+  gatherResources,
+  type FileWordCount,
+  type WordCountReport,
+  type WordCounts,
+} from "@/lib/latex-compiler";
+import { parseTableOfContents } from "@/lib/latex-outline";
+import { cn } from "@/lib/utils";
+import { getFilePath, useDocumentStore } from "@/stores/document-store";
+
+const COUNT_DEBOUNCE_MS = 2000;
+
+const SUMMARY_FIELDS: { key: keyof WordCounts; label: string }[] = [
+  { key: "text", label: "正文" },
+  { key: "headers", label: "标题" },
+  { key: "captions", label: "图注等" },
+  { key: "floats", label: "图表" },
+  { key: "mathInline", label: "行内公式" },
+  { key: "mathDisplay", label: "行间公式" },
+];
+
+function totalWords(counts: WordCounts) {
+  return counts.text + counts.headers + counts.captions;
+}
+
+function matchSections(file: FileWordCount, content: string) {
+  const sections = file.sections.filter((s) => s.type !== "_top_");
+  let next = 0;
+  return parseTableOfContents(content).map((item) => {
+    const index = sections.findIndex(
+      (s, i) => i >= next && s.title === item.title,
+    );
+    if (index === -1) return { ...item, words: null };
+    next = index + 1;
+    return { ...item, words: totalWords(sections[index]) };
+  });
+}
+
+export function WordCount() {
+  const files = useDocumentStore((s) => s.files);
+  const mainFileId = useDocumentStore((s) => s.mainFileId);
+  const [report, setReport] = useState<WordCountReport | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (!files.some((f) => f.type === "tex")) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsCounting(true);
+      countWords(gatherResources(files, mainFileId))
+        .then((result) => {
+          if (!cancelled && result) setReport(result);
+        })
+        .finally(() => {
+          if (!cancelled) setIsCounting(false);
+        });
+    }, COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [files, mainFileId]);
+
+  const breakdown = useMemo(() => {
+    if (!report) return [];
+    const contentByPath = new Map(
+      files
+        .filter((f) => f.type === "tex")
+        .map((f) => [getFilePath(files, f), f.content ?? ""]),
+    );
+    return report.files.map((file) => {
+      const top = file.sections.find((s) => s.type === "_top_");
+      return {
+        file,
+        top: top ? totalWords(top) : 0,
+        sections: matchSections(file, contentByPath.get(file.file) ?? ""),
+      };
+    });
+  }, [files, report]);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 gap-1 px-1.5 text-muted-foreground text-xs"
+        onClick={() => setDialogOpen(true)}
+        disabled={!report}
+        title="字数统计"
+      >
+        {isCounting && !report ? (
+          <LoaderIcon className="size-3.5 animate-spin" />
+        ) : (
+          <TypeIcon className="size-3.5" />
+        )}
+        <span className="tabular-nums">
+          {report ? `${totalWords(report.total).toLocaleString()} 词` : "—"}
+        </span>
+      </Button>
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>字数统计</DialogTitle>
+          </DialogHeader>
+          {report && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-3 gap-2">
+                {SUMMARY_FIELDS.map((field) => (
+                  <div
+                    key={field.key}
+                    className="rounded-md border border-border px-3 py-2"
+                  >
+                    <div className="text-muted-foreground text-xs">
+                      {field.label}
+                    </div>
+                    <div className="font-medium text-sm tabular-nums">
+                      {report.total[field.key].toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="max-h-80 space-y-3 overflow-auto">
+                {breakdown.map(({ file, top, sections }) => (
+                  <div key={file.file}>
+                    <div className="flex items-center justify-between border-border border-b pb-1 font-medium text-sm">
+                      <span className="truncate">{file.file}</span>
+                      <span className="tabular-nums">
+                        {totalWords(file).toLocaleString()}
+                      </span>
+                    </div>
+                    {top > 0 && (
+                      <div className="flex justify-between py-0.5 text-muted-foreground text-xs">
+                        <span>（首个标题之前）</span>
+                        <span className="tabular-nums">
+                          {top.toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                    {sections.map((s) => (
+                      <div
+                        key={`${s.line}-${s.title}`}
+                        className="flex justify-between gap-2 py-0.5 text-xs"
+                        style={{ paddingLeft: `${s.level * 12}px` }}
+                      >
+                        <span className="truncate">{s.title}</span>
+                        <span
+                          className={cn(
+                            "shrink-0 tabular-nums",
+                            s.words === null && "text-muted-foreground",
+                          )}
+                        >
+                          {s.words?.toLocaleString() ?? "—"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
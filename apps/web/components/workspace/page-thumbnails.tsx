@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DownloadIcon, LoaderIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { renderPdfPages } from "@/lib/latex-compiler";
+import { useDocumentStore } from "@/stores/document-store";
+
+const THUMBNAIL_DPI = 24;
+const EXPORT_DPI = 150;
+// Pages that scroll into view together are fetched in one render request.
+const BATCH_DELAY_MS = 50;
+
+function useVisible<T extends Element>(onVisible: () => void) {
+  const ref = useRef<T>(null);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    // A hidden sidebar never intersects, so nothing is rendered for it.
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          onVisible();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [onVisible]);
+  return ref;
+}
+
+export function PageThumbnails() {
+  const pdfBuildId = useDocumentStore((s) => s.pdfBuildId);
+  const requestPdfPage = useDocumentStore((s) => s.requestPdfPage);
+  const [pageCount, setPageCount] = useState(0);
+  const [sources, setSources] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const requested = useRef(new Set<number>());
+  const batch = useRef<number[]>([]);
+  const batchTimer = useRef<number | null>(null);
+
+  useEffect(() => {
+    setPageCount(0);
+    setSources({});
+    requested.current = new Set([1]);
+    batch.current = [];
+    if (!pdfBuildId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    renderPdfPages(pdfBuildId, { pages: [1], dpi: THUMBNAIL_DPI })
+      .then((result) => {
+        if (cancelled || !result) return;
+        setPageCount(result.pageCount);
+        setSources(
+          Object.fromEntries(result.pages.map((p) => [p.page, p.src])),
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      if (batchTimer.current !== null) {
+        window.clearTimeout(batchTimer.current);
+        batchTimer.current = null;
+      }
+    };
+  }, [pdfBuildId]);
+
+  const loadPage = useCallback(
+    (page: number) => {
+      if (!pdfBuildId || requested.current.has(page)) return;
+      requested.current.add(page);
+      batch.current.push(page);
+      if (batchTimer.current !== null) return;
+      batchTimer.current = window.setTimeout(() => {
+        batchTimer.current = null;
+        const pages = batch.current;
+        batch.current = [];
+        renderPdfPages(pdfBuildId, { pages, dpi: THUMBNAIL_DPI }).then(
+          (result) => {
+            if (useDocumentStore.getState().pdfBuildId !== pdfBuildId) return;
+            if (!result) {
+              for (const page of pages) requested.current.delete(page);
+              return;
+            }
+            setSources((current) => ({
+              ...current,
+              ...Object.fromEntries(result.pages.map((p) => [p.page, p.src])),
+            }));
+          },
+        );
+      }, BATCH_DELAY_MS);
+    },
+    [pdfBuildId],
+  );
+
+  const handleExport = async (page: number) => {
+    if (!pdfBuildId) return;
+    const result = await renderPdfPages(pdfBuildId, {
+      pages: [page],
+      dpi: EXPORT_DPI,
+    });
+    const src = result?.pages[0]?.src;
+    if (!src) return;
+    const a = document.createElement("a");
+    a.href = src;
+    a.download = `page-${page}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-1.5 px-2 py-1 text-muted-foreground text-xs">
+        <LoaderIcon className="size-3 animate-spin" />
+        正在生成缩略图...
+      </div>
+    );
+  }
+
+  if (pageCount === 0) {
+    return (
+      <div className="px-2 py-1 text-muted-foreground text-xs">
+        编译后显示页面
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {Array.from({ length: pageCount }, (_, i) => i + 1).map((page) => (
+        <PageThumbnail
+          key={page}
+          page={page}
+          src={sources[page]}
+          onVisible={loadPage}
+          onSelect={requestPdfPage}
+          onExport={handleExport}
+        />
+      ))}
+    </div>
+  );
+}
+
+function PageThumbnail({
+  page,
+  src,
+  onVisible,
+  onSelect,
+  onExport,
+}: {
+  page: number;
+  src: string | undefined;
+  onVisible: (page: number) => void;
+  onSelect: (page: number) => void;
+  onExport: (page: number) => void;
+}) {
+  const handleVisible = useCallback(() => onVisible(page), [onVisible, page]);
+  const ref = useVisible<HTMLDivElement>(handleVisible);
+
+  return (
+    <div ref={ref} className="group relative">
+      <button
+        type="button"
+        className="w-full overflow-hidden rounded-sm border border-sidebar-border bg-white transition-shadow hover:ring-2 hover:ring-primary/50"
+        onClick={() => onSelect(page)}
+        title={`第 ${page} 页`}
+      >
+        {src ? (
+          <img src={src} alt={`第 ${page} 页`} className="w-full" />
+        ) : (
+          <div className="aspect-[1/1.414] w-full" />
+        )}
+      </button>
+      <span className="mt-0.5 block text-center text-muted-foreground text-xs tabular-nums">
+        {page}
+      </span>
+      <Button
+        variant="secondary"
+        size="icon"
+        className="absolute top-1 right-1 size-5 opacity-0 group-hover:opacity-100"
+        onClick={() => onExport(page)}
+        title="导出为图片"
+      >
+        <DownloadIcon className="size-3" />
+      </Button>
+    </div>
+  );
+}
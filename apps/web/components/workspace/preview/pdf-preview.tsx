@@ -1,18 +1,38 @@
 "use client";
 
 import dynamic from "next/dynamic";
+import { useAui } from "@assistant-ui/store";
 import { useState, useEffect, useRef, useCallback } from "react";
 import {
   FileTextIcon,
   AlertCircleIcon,
+  AlertTriangleIcon,
   LoaderIcon,
   RefreshCwIcon,
   MinusIcon,
   PlusIcon,
   DownloadIcon,
+  WandSparklesIcon,
 } from "lucide-react";
-import { useDocumentStore, type ProjectFile } from "@/stores/document-store";
+import { toast } from "sonner";
+import {
+  findFileByPath,
+  getFilePath,
+  getLineOffset,
+  useDocumentStore,
+  useProjectStore,
+  useUiStore,
+  type BuildArtifact,
+  type LatexCompiler,
+} from "@/stores/document-store";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -20,7 +40,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { compileLatex, type CompileResource } from "@/lib/latex-compiler";
+import {
+  compileToPreview,
+  LATEX_COMPILERS,
+  renderPdfPages,
+  syncTexForward,
+  syncTexInverse,
+  type PdfRect,
+} from "@/lib/latex-compiler";
+import { cn } from "@/lib/utils";
+import type { PdfClickTarget } from "./pdf-viewer";
+import { ProblemsPanel } from "./problems-panel";
+import { WarningsPanel } from "./warnings-panel";
 
 const ZOOM_OPTIONS = [
   { value: "0.5", label: "50%" },
@@ -33,6 +64,9 @@ const ZOOM_OPTIONS = [
   { value: "4", label: "400%" },
 ];
 
+const SYNC_HIGHLIGHT_MS = 3000;
+const PROJECT_THUMBNAIL_DPI = 24;
+
 const PdfViewer = dynamic(
   () => import("./pdf-viewer").then((mod) => mod.PdfViewer),
   {
@@ -45,60 +79,82 @@ const PdfViewer = dynamic(
   },
 );
 
-function gatherResources(files: ProjectFile[]): CompileResource[] {
-  const byId = new Map(files.map((f) => [f.id, f]));
-  const buildPath = (file: ProjectFile) => {
-    const segments: string[] = [file.name];
-    let parentId = file.parentId ?? null;
-    while (parentId) {
-      const parent = byId.get(parentId) ?? null;
-      if (!parent || parent.type !== "folder") break;
-      segments.unshift(parent.name);
-      parentId = parent.parentId ?? null;
-    }
-    return segments.join("/");
-  };
+const FIX_COMPILE_ERRORS_PROMPT =
+  "项目编译失败。请用 compile_project 编译项目并读取错误，修改相关文件后再次编译，直到编译成功。";
 
-  return files.flatMap((f) => {
-    if (f.type === "folder") return [];
-    const path = buildPath(f);
-    if (f.type === "tex") {
-      return {
-        path,
-        content: f.content ?? "",
-        main: f.name === "document.tex",
-      };
-    }
-    const dataUrl = f.dataUrl ?? "";
-    const base64 = dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl;
-    return {
-      path,
-      content: base64,
-      encoding: "base64",
-    };
+function notifyBuildExpired() {
+  toast("编译结果已过期，无法定位到源码", {
+    id: "pdf-build-expired",
+    description: "重新编译后即可继续使用 PDF 与源码之间的跳转。",
+    action: { label: "重新编译", onClick: () => compileToPreview() },
   });
 }
 
+function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export function PdfPreview() {
+  const aui = useAui();
   const pdfData = useDocumentStore((s) => s.pdfData);
+  const pdfBuildId = useDocumentStore((s) => s.pdfBuildId);
+  const pdfArtifacts = useDocumentStore((s) => s.pdfArtifacts);
+  const pdfSyncRequest = useDocumentStore((s) => s.pdfSyncRequest);
+  const clearPdfSyncRequest = useDocumentStore((s) => s.clearPdfSyncRequest);
+  const pdfPageRequest = useDocumentStore((s) => s.pdfPageRequest);
+  const clearPdfPageRequest = useDocumentStore((s) => s.clearPdfPageRequest);
   const compileError = useDocumentStore((s) => s.compileError);
+  const compileDiagnostics = useDocumentStore((s) => s.compileDiagnostics);
+  const compileWarnings = useDocumentStore((s) => s.compileWarnings);
   const isCompiling = useDocumentStore((s) => s.isCompiling);
+  const compileLog = useDocumentStore((s) => s.compileLog);
+  const compileQueuePosition = useDocumentStore((s) => s.compileQueuePosition);
   const isSaving = useDocumentStore((s) => s.isSaving);
-  const setPdfData = useDocumentStore((s) => s.setPdfData);
-  const setCompileError = useDocumentStore((s) => s.setCompileError);
-  const setIsCompiling = useDocumentStore((s) => s.setIsCompiling);
   const content = useDocumentStore((s) => s.content);
+  const activeProjectId = useProjectStore((s) => s.activeProjectId);
+  const compiler = useProjectStore(
+    (s) =>
+      s.projects.find((p) => p.id === s.activeProjectId)?.compiler ??
+      "pdflatex",
+  );
+  const setProjectCompiler = useProjectStore((s) => s.setProjectCompiler);
+  const setProjectThumbnail = useProjectStore((s) => s.setProjectThumbnail);
   const requestJumpToPosition = useDocumentStore(
     (s) => s.requestJumpToPosition,
   );
+  const setActiveFile = useDocumentStore((s) => s.setActiveFile);
 
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [numPages, setNumPages] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0);
+  const [syncHighlight, setSyncHighlight] = useState<PdfRect | null>(null);
+  const [showWarnings, setShowWarnings] = useState(false);
+  const [scrollRequest, setScrollRequest] = useState<{ page: number } | null>(
+    null,
+  );
   const hasInitialCompile = useRef(false);
+  const compileLogRef = useRef<HTMLPreElement>(null);
   const initialized = useDocumentStore((s) => s.initialized);
 
+  const lastLogLine = compileLog
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .at(-1);
+
+  useEffect(() => {
+    const el = compileLogRef.current;
+    if (el && compileLog) el.scrollTop = el.scrollHeight;
+  }, [compileLog]);
+
   const handleTextClick = useCallback(
     (text: string) => {
       let index = content.indexOf(text);
@@ -125,6 +181,64 @@ export function PdfPreview() {
     [content, requestJumpToPosition],
   );
 
+  const handlePageClick = useCallback(
+    async (target: PdfClickTarget) => {
+      const result = pdfBuildId
+        ? await syncTexInverse(pdfBuildId, target.page, target.x, target.y)
+        : null;
+      if (result?.status === "expired") notifyBuildExpired();
+      const location = result?.status === "found" ? result.value : null;
+      const files = useDocumentStore.getState().files;
+      const file = location ? findFileByPath(files, location.file) : null;
+      if (location && file?.type === "tex") {
+        setActiveFile(file.id);
+        requestJumpToPosition(getLineOffset(file.content ?? "", location.line));
+        return;
+      }
+      if (target.text) handleTextClick(target.text);
+    },
+    [pdfBuildId, setActiveFile, requestJumpToPosition, handleTextClick],
+  );
+
+  useEffect(() => {
+    if (!pdfSyncRequest) return;
+    clearPdfSyncRequest();
+    if (!pdfBuildId) return;
+    const files = useDocumentStore.getState().files;
+    const file = files.find((f) => f.id === pdfSyncRequest.fileId);
+    if (!file) return;
+    syncTexForward(
+      pdfBuildId,
+      getFilePath(files, file),
+      pdfSyncRequest.line,
+    ).then((result) => {
+      if (result.status === "expired") notifyBuildExpired();
+      setSyncHighlight(result.status === "found" ? result.value : null);
+    });
+  }, [pdfSyncRequest, pdfBuildId, clearPdfSyncRequest]);
+
+  useEffect(() => {
+    if (pdfPageRequest === null) return;
+    setScrollRequest({ page: pdfPageRequest });
+    clearPdfPageRequest();
+  }, [pdfPageRequest, clearPdfPageRequest]);
+
+  useEffect(() => {
+    if (!pdfBuildId || !activeProjectId) return;
+    renderPdfPages(pdfBuildId, { pages: [1], dpi: PROJECT_THUMBNAIL_DPI }).then(
+      (result) => {
+        const src = result?.pages[0]?.src;
+        if (src) setProjectThumbnail(activeProjectId, src);
+      },
+    );
+  }, [pdfBuildId, activeProjectId, setProjectThumbnail]);
+
+  useEffect(() => {
+    if (!syncHighlight) return;
+    const timer = setTimeout(() => setSyncHighlight(null), SYNC_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [syncHighlight]);
+
   useEffect(() => {
     if (hasInitialCompile.current) return;
     if (!initialized) return;
@@ -132,46 +246,32 @@ export function PdfPreview() {
 
     hasInitialCompile.current = true;
 
-    const compile = async () => {
-      setIsCompiling(true);
-      try {
-        const currentFiles = useDocumentStore.getState().files;
-        const resources = gatherResources(currentFiles);
-        const data = await compileLatex(resources);
-        setPdfData(data);
-      } catch (error) {
-        setCompileError(error instanceof Error ? error.message : "编译失败");
-      } finally {
-        setIsCompiling(false);
-      }
-    };
-    compile();
-  }, [
-    initialized,
-    pdfData,
-    isCompiling,
-    compileError,
-    setIsCompiling,
-    setPdfData,
-    setCompileError,
-  ]);
+    compileToPreview();
+  }, [initialized, pdfData, isCompiling, compileError]);
 
   const zoomIn = () => setScale((s) => Math.min(4, s + 0.1));
   const zoomOut = () => setScale((s) => Math.max(0.25, s - 0.1));
 
   const handleDownload = () => {
     if (!pdfData) return;
-    const blob = new Blob([new Uint8Array(pdfData)], {
-      type: "application/pdf",
-    });
-    const url = URL.createObjectURL(blob);
+    downloadBlob(
+      new Blob([new Uint8Array(pdfData)], { type: "application/pdf" }),
+      "document.pdf",
+    );
+  };
+
+  const handleArtifactDownload = (artifact: BuildArtifact) => {
+    if (artifact.data) {
+      downloadBlob(new Blob([new Uint8Array(artifact.data)]), artifact.name);
+      return;
+    }
+    if (!pdfBuildId) return;
     const a = document.createElement("a");
-    a.href = url;
-    a.download = "document.pdf";
+    a.href = `/api/compile/${encodeURIComponent(pdfBuildId)}/artifacts/${encodeURIComponent(artifact.name)}`;
+    a.download = artifact.name;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
   };
 
   const handleLoadSuccess = (pages: number) => {
@@ -183,23 +283,55 @@ export function PdfPreview() {
     setScale(newScale);
   };
 
-  const handleCompile = async () => {
+  const handleCompile = () => {
     if (isCompiling) return;
-    setIsCompiling(true);
     setPdfError(null);
-    try {
-      const currentFiles = useDocumentStore.getState().files;
-      const resources = gatherResources(currentFiles);
-      const data = await compileLatex(resources);
-      setPdfData(data);
-    } catch (error) {
-      setCompileError(error instanceof Error ? error.message : "编译失败");
-    } finally {
-      setIsCompiling(false);
-    }
+    compileToPreview();
+  };
+
+  const handleFixWithAssistant = () => {
+    if (aui.thread().getState().isRunning) return;
+    useUiStore.getState().setCenterView("chat");
+    aui.thread().append(FIX_COMPILE_ERRORS_PROMPT);
   };
 
+  const fixButton = (
+    <Button
+      variant="outline"
+      size="sm"
+      className="h-7 gap-1.5 text-xs"
+      onClick={handleFixWithAssistant}
+    >
+      <WandSparklesIcon className="size-3.5" />
+      修复编译错误
+    </Button>
+  );
+
   const renderContent = () => {
+    if (compileError && compileDiagnostics.length > 0) {
+      const errorCount = compileDiagnostics.filter(
+        (d) => d.severity === "error",
+      ).length;
+      return (
+        <div className="flex flex-1 flex-col overflow-hidden bg-muted/30">
+          <div className="flex items-center gap-1.5 border-border border-b bg-background px-3 py-2">
+            <AlertCircleIcon className="size-4 text-destructive" />
+            <span className="font-medium text-destructive text-sm">
+              编译失败
+            </span>
+            <span className="text-muted-foreground text-xs">
+              {errorCount} 个错误，共 {compileDiagnostics.length} 个问题
+            </span>
+            <div className="ml-auto">{fixButton}</div>
+          </div>
+          <ProblemsPanel
+            diagnostics={compileDiagnostics}
+            className="flex-1 bg-background"
+          />
+        </div>
+      );
+    }
+
     if (compileError) {
       return (
         <div className="flex flex-1 flex-col items-center justify-center bg-muted/30 p-8">
@@ -210,6 +342,27 @@ export function PdfPreview() {
           <p className="max-w-md text-center text-muted-foreground text-sm">
             {compileError}
           </p>
+          <div className="mt-4">{fixButton}</div>
+        </div>
+      );
+    }
+
+    if (!pdfData && isCompiling) {
+      return (
+        <div className="flex flex-1 flex-col overflow-hidden bg-muted/30 p-4">
+          <div className="mb-2 flex items-center gap-1.5">
+            <LoaderIcon className="size-3.5 animate-spin text-muted-foreground" />
+            <span className="text-muted-foreground text-xs">编译日志</span>
+          </div>
+          <pre
+            ref={compileLogRef}
+            className="flex-1 overflow-auto whitespace-pre-wrap break-all rounded-md border border-border bg-background p-3 font-mono text-muted-foreground text-xs"
+          >
+            {compileLog ||
+              (compileQueuePosition > 0
+                ? `编译队列中，前方还有 ${compileQueuePosition - 1} 个任务...`
+                : "等待编译器输出...")}
+          </pre>
         </div>
       );
     }
@@ -249,8 +402,10 @@ export function PdfPreview() {
         onError={setPdfError}
         onLoadSuccess={handleLoadSuccess}
         onScaleChange={handleScaleChange}
-        onTextClick={handleTextClick}
+        onPageClick={handlePageClick}
         onPageChange={setCurrentPage}
+        highlight={syncHighlight}
+        scrollRequest={scrollRequest}
       />
     );
   };
@@ -268,7 +423,16 @@ export function PdfPreview() {
           {!isSaving && isCompiling && (
             <>
               <LoaderIcon className="size-3.5 animate-spin text-muted-foreground" />
-              <span className="text-muted-foreground text-xs">正在编译...</span>
+              <span className="text-muted-foreground text-xs">
+                {compileQueuePosition > 0
+                  ? `排队中（第 ${compileQueuePosition} 位）...`
+                  : "正在编译..."}
+              </span>
+              {compileQueuePosition === 0 && lastLogLine && (
+                <span className="max-w-48 truncate font-mono text-muted-foreground/70 text-xs">
+                  {lastLogLine}
+                </span>
+              )}
             </>
           )}
           {!isSaving && !isCompiling && pdfData && (
@@ -280,6 +444,30 @@ export function PdfPreview() {
         </div>
 
         <div className="flex items-center gap-0.5">
+          <Select
+            value={compiler}
+            onValueChange={(v) => {
+              if (activeProjectId) {
+                setProjectCompiler(activeProjectId, v as LatexCompiler);
+              }
+            }}
+            disabled={!activeProjectId}
+          >
+            <SelectTrigger
+              size="sm"
+              className="h-6! w-auto text-xs"
+              title="编译器"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LATEX_COMPILERS.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {c}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             variant="ghost"
             size="sm"
@@ -331,20 +519,63 @@ export function PdfPreview() {
                 </SelectContent>
               </Select>
               <div className="mx-0.5 h-4 w-px bg-border" />
-              <Button
-                variant="ghost"
-                size="icon"
-                className="size-6"
-                onClick={handleDownload}
-                title="下载 PDF"
-              >
-                <DownloadIcon className="size-3.5" />
-              </Button>
+              {compileWarnings.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn(
+                    "h-6 gap-1 px-1.5 text-amber-600 text-xs tabular-nums",
+                    showWarnings && "bg-muted",
+                  )}
+                  onClick={() => setShowWarnings((v) => !v)}
+                  title="编译警告"
+                >
+                  <AlertTriangleIcon className="size-3.5" />
+                  {compileWarnings.length}
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-6"
+                    title="下载"
+                  >
+                    <DownloadIcon className="size-3.5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleDownload}>
+                    下载 PDF
+                  </DropdownMenuItem>
+                  {pdfArtifacts.length > 0 && <DropdownMenuSeparator />}
+                  {pdfArtifacts.map((artifact) => (
+                    <DropdownMenuItem
+                      key={artifact.name}
+                      onClick={() => handleArtifactDownload(artifact)}
+                    >
+                      <span className="flex-1 font-mono text-xs">
+                        {artifact.name}
+                      </span>
+                      <span className="text-muted-foreground text-xs">
+                        {Math.max(1, Math.round(artifact.size / 1024))} KB
+                      </span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </>
           )}
         </div>
       </div>
 
+      {pdfData && showWarnings && compileWarnings.length > 0 && (
+        <WarningsPanel
+          warnings={compileWarnings}
+          onClose={() => setShowWarnings(false)}
+        />
+      )}
       {renderContent()}
     </div>
   );
@@ -5,17 +5,27 @@ import { Document, Page, pdfjs } from "react-pdf";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
 import { LoaderIcon } from "lucide-react";
+import type { PdfRect } from "@/lib/latex-compiler";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
+export interface PdfClickTarget {
+  page: number;
+  x: number;
+  y: number;
+  text: string | null;
+}
+
 interface PdfViewerProps {
   data: Uint8Array;
   scale: number;
   onError?: (error: string) => void;
   onLoadSuccess?: (numPages: number) => void;
   onScaleChange?: (scale: number) => void;
-  onTextClick?: (text: string) => void;
+  onPageClick?: (target: PdfClickTarget) => void;
   onPageChange?: (page: number) => void;
+  highlight?: PdfRect | null;
+  scrollRequest?: { page: number } | null;
 }
 
 export function PdfViewer({
@@ -24,8 +34,10 @@ export function PdfViewer({
   onError,
   onLoadSuccess,
   onScaleChange,
-  onTextClick,
+  onPageClick,
   onPageChange,
+  highlight,
+  scrollRequest,
 }: PdfViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const hasSetInitialScale = useRef(false);
@@ -69,24 +81,56 @@ export function PdfViewer({
     [onError],
   );
 
-  const handleTextLayerClick = useCallback(
+  const handlePageClick = useCallback(
     (e: React.MouseEvent) => {
-      if (!onTextClick) return;
+      if (!onPageClick) return;
 
       const target = e.target as HTMLElement;
+      const pageEl = target.closest<HTMLElement>(".react-pdf__Page");
+      const page = Number(pageEl?.dataset.pageNumber);
+      if (!pageEl || !page) return;
+
+      let text: string | null = null;
       if (
         target.tagName === "SPAN" &&
         target.closest(".react-pdf__Page__textContent")
       ) {
-        const text = target.textContent?.trim();
-        if (text && text.length > 2) {
-          onTextClick(text);
-        }
+        const content = target.textContent?.trim();
+        if (content && content.length > 2) text = content;
       }
+
+      const rect = pageEl.getBoundingClientRect();
+      onPageClick({
+        page,
+        x: (e.clientX - rect.left) / scale,
+        y: (e.clientY - rect.top) / scale,
+        text,
+      });
     },
-    [onTextClick],
+    [onPageClick, scale],
   );
 
+  useEffect(() => {
+    const container = containerRef.current;
+    const pageEl = highlight ? pageRefs.current[highlight.page - 1] : null;
+    if (!container || !highlight || !pageEl) return;
+    const offset =
+      pageEl.getBoundingClientRect().top -
+      container.getBoundingClientRect().top +
+      container.scrollTop;
+    container.scrollTo({
+      top: offset + highlight.y * scale - container.clientHeight / 3,
+      behavior: "smooth",
+    });
+  }, [highlight, scale, numPages]);
+
+  useEffect(() => {
+    if (!scrollRequest) return;
+    pageRefs.current[scrollRequest.page - 1]?.scrollIntoView({
+      behavior: "smooth",
+    });
+  }, [scrollRequest]);
+
   useEffect(() => {
     const container = containerRef.current;
     if (!container || !onScaleChange) return;
@@ -150,7 +194,7 @@ export function PdfViewer({
     <div ref={containerRef} className="flex-1 overflow-auto">
       <div
         className="flex flex-col items-center gap-4 p-4"
-        onClick={handleTextLayerClick}
+        onClick={handlePageClick}
       >
         <Document
           file={file}
@@ -176,9 +220,21 @@ export function PdfViewer({
                 scale={scale}
                 renderTextLayer={true}
                 renderAnnotationLayer={true}
-                className="mb-4 shadow-lg"
+                className="relative mb-4 shadow-lg"
                 onLoadSuccess={i === 0 ? handlePageLoadSuccess : undefined}
-              />
+              >
+                {highlight?.page === i + 1 && (
+                  <div
+                    className="pointer-events-none absolute z-10 rounded-sm bg-yellow-400/30 ring-1 ring-yellow-500/60"
+                    style={{
+                      left: highlight.x * scale,
+                      top: highlight.y * scale,
+                      width: Math.max(highlight.width, 4) * scale,
+                      height: Math.max(highlight.height, 4) * scale,
+                    }}
+                  />
+                )}
+              </Page>
             </div>
           ))}
         </Document>
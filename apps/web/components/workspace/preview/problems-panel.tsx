@@ -0,0 +1,90 @@
+"use client";
+
+import { AlertCircleIcon, AlertTriangleIcon, InfoIcon } from "lucide-react";
+import {
+  findFileByPath,
+  getLineOffset,
+  getMainFile,
+  useDocumentStore,
+  type CompileDiagnostic,
+} from "@/stores/document-store";
+import { cn } from "@/lib/utils";
+
+interface ProblemsPanelProps {
+  diagnostics: CompileDiagnostic[];
+  className?: string;
+}
+
+function SeverityIcon({
+  severity,
+}: {
+  severity: CompileDiagnostic["severity"];
+}) {
+  if (severity === "error") {
+    return <AlertCircleIcon className="size-3.5 shrink-0 text-destructive" />;
+  }
+  if (severity === "warning") {
+    return <AlertTriangleIcon className="size-3.5 shrink-0 text-amber-500" />;
+  }
+  return <InfoIcon className="size-3.5 shrink-0 text-muted-foreground" />;
+}
+
+export function ProblemsPanel({ diagnostics, className }: ProblemsPanelProps) {
+  const files = useDocumentStore((s) => s.files);
+  const mainFileId = useDocumentStore((s) => s.mainFileId);
+  const setActiveFile = useDocumentStore((s) => s.setActiveFile);
+  const requestJumpToPosition = useDocumentStore(
+    (s) => s.requestJumpToPosition,
+  );
+
+  const resolveFile = (diagnostic: CompileDiagnostic) =>
+    diagnostic.file
+      ? findFileByPath(files, diagnostic.file)
+      : getMainFile(files, mainFileId);
+
+  const handleJump = (diagnostic: CompileDiagnostic) => {
+    const file = resolveFile(diagnostic);
+    if (!file || file.type !== "tex" || diagnostic.line === null) return;
+    setActiveFile(file.id);
+    requestJumpToPosition(getLineOffset(file.content ?? "", diagnostic.line));
+  };
+
+  return (
+    <div className={cn("flex flex-col overflow-auto", className)}>
+      {diagnostics.map((diagnostic, index) => {
+        const location = [diagnostic.file, diagnostic.line]
+          .filter((v) => v != null)
+          .join(":");
+        const canJump =
+          diagnostic.line !== null && resolveFile(diagnostic)?.type === "tex";
+        return (
+          <button
+            key={index}
+            type="button"
+            className={cn(
+              "flex items-start gap-2 border-border border-b px-3 py-2 text-left text-xs",
+              canJump ? "hover:bg-muted" : "cursor-default",
+            )}
+            onClick={() => handleJump(diagnostic)}
+            disabled={!canJump}
+          >
+            <SeverityIcon severity={diagnostic.severity} />
+            <div className="min-w-0 flex-1">
+              <p className="break-words">{diagnostic.message}</p>
+              {diagnostic.context && (
+                <p className="truncate font-mono text-muted-foreground">
+                  {diagnostic.context}
+                </p>
+              )}
+            </div>
+            {location && (
+              <span className="shrink-0 font-mono text-muted-foreground">
+                {location}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { CompileDiagnostic } from "@/stores/document-store";
+import { cn } from "@/lib/utils";
+import { ProblemsPanel } from "./problems-panel";
+
+type SeverityFilter = "all" | "warning" | "info";
+
+const SEVERITY_FILTERS: { value: SeverityFilter; label: string }[] = [
+  { value: "all", label: "全部" },
+  { value: "warning", label: "警告" },
+  { value: "info", label: "排版" },
+];
+
+interface WarningsPanelProps {
+  warnings: CompileDiagnostic[];
+  onClose: () => void;
+}
+
+export function WarningsPanel({ warnings, onClose }: WarningsPanelProps) {
+  const [query, setQuery] = useState("");
+  const [severity, setSeverity] = useState<SeverityFilter>("all");
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return warnings.filter(
+      (w) =>
+        (severity === "all" || w.severity === severity) &&
+        (!needle ||
+          w.message.toLowerCase().includes(needle) ||
+          w.file?.toLowerCase().includes(needle)),
+    );
+  }, [warnings, query, severity]);
+
+  return (
+    <div className="flex max-h-[40%] flex-col border-border border-b bg-background">
+      <div className="flex items-center gap-1 border-border border-b px-2 py-1.5">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="筛选警告..."
+          className="h-6 flex-1 text-xs md:text-xs"
+        />
+        {SEVERITY_FILTERS.map((filter) => (
+          <Button
+            key={filter.value}
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "h-6 px-2 text-xs",
+              severity === filter.value && "bg-muted",
+            )}
+            onClick={() => setSeverity(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          onClick={onClose}
+        >
+          <XIcon className="size-3.5" />
+        </Button>
+      </div>
+      {filtered.length > 0 ? (
+        <ProblemsPanel diagnostics={filtered} className="flex-1" />
+      ) : (
+        <p className="px-3 py-2 text-muted-foreground text-xs">
+          没有匹配的警告
+        </p>
+      )}
+    </div>
+  );
+}
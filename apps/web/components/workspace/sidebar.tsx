@@ -24,6 +24,8 @@ import {
   UserIcon,
   LogOutIcon,
   DownloadIcon,
+  StarIcon,
+  LayoutGridIcon,
 } from "lucide-react";
 import Link from "next/link";
 import { useTheme } from "next-themes";
@@ -36,6 +38,7 @@ import {
   useSettingsStore,
   useUiStore,
   generateId,
+  getMainFile,
   type AppLanguage,
   type ProjectFile,
 } from "@/stores/document-store";
@@ -64,44 +67,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import packageJson from "@/package.json";
+import {
+  AI_PROVIDER_KINDS,
+  toModelRequestConfig,
+  type ReasoningEffort,
+} from "@/lib/ai-config";
+import { parseTableOfContents } from "@/lib/latex-outline";
+import { PageThumbnails } from "./page-thumbnails";
 import { toast } from "sonner";
 
-interface TocItem {
-  level: number;
-  title: string;
-  line: number;
-}
-
-function parseTableOfContents(content: string): TocItem[] {
-  const lines = content.split("\n");
-  const toc: TocItem[] = [];
-
-  const sectionRegex =
-    /\\(section|subsection|subsubsection|chapter|part)\*?\s*\{([^}]*)\}/;
-
-  const levelMap: Record<string, number> = {
-    part: 0,
-    chapter: 1,
-    section: 2,
-    subsection: 3,
-    subsubsection: 4,
-  };
-
-  lines.forEach((line, index) => {
-    const match = line.match(sectionRegex);
-    if (match) {
-      const [, type, title] = match;
-      toc.push({
-        level: levelMap[type] ?? 2,
-        title: title.trim(),
-        line: index + 1,
-      });
-    }
-  });
-
-  return toc;
-}
-
 function parseBibEntries(bibContent: string) {
   const entries: Array<{
     type: string;
@@ -210,6 +184,8 @@ export function Sidebar() {
   const files = useDocumentStore((s) => s.files);
   const activeFileId = useDocumentStore((s) => s.activeFileId);
   const setActiveFile = useDocumentStore((s) => s.setActiveFile);
+  const mainFileId = useDocumentStore((s) => s.mainFileId);
+  const setMainFile = useDocumentStore((s) => s.setMainFile);
   const viewLineNumber = useDocumentStore((s) => s.viewLineNumber);
   const addFile = useDocumentStore((s) => s.addFile);
   const addFolder = useDocumentStore((s) => s.addFolder);
@@ -503,15 +479,26 @@ export function Sidebar() {
       });
     }
 
+    const texFiles = files.filter((f) => f.type === "tex");
+    const documentFiles = texFiles.filter((f) =>
+      /^\s*\\documentclass/m.test(f.content ?? ""),
+    );
+    const mainFile =
+      documentFiles.find((f) => !f.parentId) ??
+      documentFiles[0] ??
+      texFiles.find((f) => f.name === "document.tex") ??
+      null;
+
     const defaultActive =
-      files.find((f) => f.type === "tex" && f.name === "document.tex") ??
-      files.find((f) => f.type === "tex") ??
+      mainFile ??
+      texFiles[0] ??
       files.find((f) => f.type !== "folder") ??
       files[0];
 
     return {
       files,
       activeFileId: defaultActive?.id ?? null,
+      mainFileId: mainFile?.id ?? null,
     };
   };
 
@@ -519,12 +506,15 @@ export function Sidebar() {
     projectId: string,
     projectFiles: ProjectFile[],
     activeFileId: string | null,
+    mainFileId: string | null,
   ) => {
     if (!currentUserId) return;
     const documentKey = `open-prism-document:${currentUserId}:${projectId}`;
     useDocumentStore.persist.setOptions({ name: documentKey });
     useDocumentStore.getState().setHydratedKey(documentKey);
-    useDocumentStore.getState().loadProject(projectFiles, activeFileId ?? null);
+    useDocumentStore
+      .getState()
+      .loadProject(projectFiles, activeFileId ?? null, mainFileId);
   };
 
   const handleFolderImport = async (uploadedFiles: FileList | null) => {
@@ -556,9 +546,12 @@ export function Sidebar() {
     );
     const projectName = root || "导入项目";
     const projectId = createProject(projectName);
-    const { files: projectFiles, activeFileId } =
-      buildProjectFiles(cleanEntries);
-    applyProjectFiles(projectId, projectFiles, activeFileId);
+    const {
+      files: projectFiles,
+      activeFileId,
+      mainFileId,
+    } = buildProjectFiles(cleanEntries);
+    applyProjectFiles(projectId, projectFiles, activeFileId, mainFileId);
     setActiveProject(projectId);
     toast.success(`已导入项目：${projectName}`);
     uploadTargetFolderIdRef.current = null;
@@ -595,9 +588,12 @@ export function Sidebar() {
     const fallbackName = file.name.replace(/\.zip$/i, "").trim() || "导入项目";
     const projectName = root || fallbackName;
     const projectId = createProject(projectName);
-    const { files: projectFiles, activeFileId } =
-      buildProjectFiles(cleanEntries);
-    applyProjectFiles(projectId, projectFiles, activeFileId);
+    const {
+      files: projectFiles,
+      activeFileId,
+      mainFileId,
+    } = buildProjectFiles(cleanEntries);
+    applyProjectFiles(projectId, projectFiles, activeFileId, mainFileId);
     setActiveProject(projectId);
     toast.success(`已导入项目：${projectName}`);
     uploadTargetFolderIdRef.current = null;
@@ -823,6 +819,8 @@ export function Sidebar() {
       .sort((a, b) => a.label.localeCompare(b.label, "zh-CN"));
   }, [files, buildFilePath]);
 
+  const mainFile = getMainFile(files, mainFileId);
+
   const renderFileTree = (parentId: string | null, depth: number) => {
     const items = filesByParent.get(parentId) ?? [];
     if (items.length === 0) return null;
@@ -831,6 +829,7 @@ export function Sidebar() {
       const indent = Math.max(0, depth * 12);
       const isFolder = item.type === "folder";
       const isActive = !isFolder && item.id === activeFileId;
+      const isMain = item.id === mainFile?.id;
       const isOpen = isFolder ? (openFolders[item.id] ?? false) : false;
 
       return (
@@ -866,6 +865,12 @@ export function Sidebar() {
               ) : null}
               {getFileIcon(item)}
               <span className="truncate">{item.name}</span>
+              {isMain && (
+                <StarIcon
+                  className="size-3 shrink-0 fill-current text-amber-500"
+                  aria-label="主文件"
+                />
+              )}
             </button>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -904,10 +909,18 @@ export function Sidebar() {
                     </DropdownMenuItem>
                   </>
                 ) : (
-                  <DropdownMenuItem onClick={() => openMoveDialog(item)}>
-                    <ArrowRightIcon className="mr-2 size-4" />
-                    移动
-                  </DropdownMenuItem>
+                  <>
+                    {item.type === "tex" && !isMain && (
+                      <DropdownMenuItem onClick={() => setMainFile(item.id)}>
+                        <StarIcon className="mr-2 size-4" />
+                        设为主文件
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => openMoveDialog(item)}>
+                      <ArrowRightIcon className="mr-2 size-4" />
+                      移动
+                    </DropdownMenuItem>
+                  </>
                 )}
                 <DropdownMenuItem
                   variant="destructive"
@@ -1053,12 +1066,17 @@ export function Sidebar() {
       toast.error("没有可用的模型");
       return;
     }
-    if (!activeProvider.apiKey.trim()) {
+    const kind = activeProvider.kind ?? "openai-compatible";
+    if (kind !== "ollama" && !activeProvider.apiKey.trim()) {
       toast.error("请先填写 API Key");
       return;
     }
-    if (!activeProvider.baseUrl.trim() || !activeModel.modelName.trim()) {
-      toast.error("请先填写 Base URL 和模型名");
+    if (kind === "openai-compatible" && !activeProvider.baseUrl.trim()) {
+      toast.error("请先填写 Base URL");
+      return;
+    }
+    if (!activeModel.modelName.trim()) {
+      toast.error("请先填写模型名");
       return;
     }
 
@@ -1078,11 +1096,7 @@ export function Sidebar() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           test: true,
-          config: {
-            apiKey: activeProvider.apiKey || undefined,
-            baseUrl: activeProvider.baseUrl || undefined,
-            modelName: activeModel.modelName || undefined,
-          },
+          config: toModelRequestConfig(activeProvider, activeModel),
         }),
       });
 
@@ -1316,6 +1330,14 @@ export function Sidebar() {
               </div>
             )}
           </div>
+
+          <div className="flex h-9 items-center gap-2 border-sidebar-border border-t px-3">
+            <LayoutGridIcon className="size-4 text-muted-foreground" />
+            <span className="font-medium text-xs">页面</span>
+          </div>
+          <div className="min-h-0 flex-1 overflow-y-auto p-2">
+            <PageThumbnails />
+          </div>
         </>
       ) : (
         <div className="min-h-0 flex-1 space-y-1 overflow-y-auto p-2">
@@ -1898,6 +1920,80 @@ export function Sidebar() {
               </div>
 
               <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <label
+                    className="font-medium text-sm"
+                    htmlFor="provider-kind"
+                  >
+                    类型
+                  </label>
+                  <Select
+                    value={activeProvider?.kind ?? "openai-compatible"}
+                    onValueChange={(value) => {
+                      const preset = AI_PROVIDER_KINDS.find(
+                        (item) => item.kind === value,
+                      );
+                      if (!preset) return;
+                      updateProvider(activeProviderId, {
+                        kind: preset.kind,
+                        baseUrl: preset.baseUrl,
+                      });
+                    }}
+                  >
+                    <SelectTrigger id="provider-kind" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AI_PROVIDER_KINDS.map((item) => (
+                        <SelectItem key={item.kind} value={item.kind}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label
+                    className="font-medium text-sm"
+                    htmlFor="provider-reasoning"
+                  >
+                    推理强度
+                  </label>
+                  <Select
+                    value={activeModel?.reasoningEffort ?? "default"}
+                    onValueChange={(value) =>
+                      activeProvider && activeModel
+                        ? updateProviderModel(
+                            activeProvider.id,
+                            activeModel.id,
+                            {
+                              reasoningEffort:
+                                value === "default"
+                                  ? undefined
+                                  : (value as ReasoningEffort),
+                            },
+                          )
+                        : undefined
+                    }
+                    disabled={!activeModel}
+                  >
+                    <SelectTrigger id="provider-reasoning" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">默认</SelectItem>
+                      <SelectItem value="low">低</SelectItem>
+                      <SelectItem value="medium">中</SelectItem>
+                      <SelectItem value="high">高</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {(activeProvider?.kind ?? "openai-compatible") ===
+                    "openai-compatible" && (
+                    <div className="text-muted-foreground text-xs">
+                      仅对 OpenAI 官方接口生效，其他兼容服务不会收到此设置。
+                    </div>
+                  )}
+                </div>
                 <div className="space-y-2">
                   <label className="font-medium text-sm" htmlFor="provider-name">
                     名称
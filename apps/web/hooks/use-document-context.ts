@@ -2,7 +2,18 @@
 
 import { useEffect } from "react";
 import { useAui } from "@assistant-ui/store";
-import { useDocumentStore, useSettingsStore } from "@/stores/document-store";
+import { toModelRequestConfig } from "@/lib/ai-config";
+import { getKnownAvailability } from "@/lib/latex-compiler";
+import {
+  parsePackageReferences,
+  parseTableOfContents,
+} from "@/lib/latex-outline";
+import {
+  getFilePath,
+  getMainFile,
+  useDocumentStore,
+  useSettingsStore,
+} from "@/stores/document-store";
 
 const resolveModelConfig = (
   providers: ReturnType<typeof useSettingsStore.getState>["providers"],
@@ -24,6 +35,69 @@ const resolveModelConfig = (
   return { provider: fallbackProvider, model: fallbackModel };
 };
 
+const describePackages = (
+  files: ReturnType<typeof useDocumentStore.getState>["files"],
+) => {
+  const names = [
+    ...new Set(
+      files
+        .filter((file) => file.type === "tex")
+        .flatMap((file) =>
+          parsePackageReferences(file.content ?? "").map((ref) => ref.name),
+        ),
+    ),
+  ];
+  const available = names.filter(
+    (name) => getKnownAvailability("packages", name) === true,
+  );
+  const unavailable = names.filter(
+    (name) => getKnownAvailability("packages", name) === false,
+  );
+  const unchecked = names.filter(
+    (name) => getKnownAvailability("packages", name) === undefined,
+  );
+  const lines = [
+    available.length > 0 &&
+      `Packages installed on the compile server: ${available.join(", ")}.`,
+    unavailable.length > 0 &&
+      `Packages NOT installed on the compile server (the document will not compile with them): ${unavailable.join(", ")}.`,
+    unchecked.length > 0 &&
+      `Packages not checked yet: ${unchecked.join(", ")}.`,
+    "Use the check_packages tool before suggesting a package the project does not already load.",
+  ];
+  return lines.filter(Boolean).join("\n");
+};
+
+const describeProject = (
+  state: ReturnType<typeof useDocumentStore.getState>,
+) => {
+  const mainFile = getMainFile(state.files, state.mainFileId);
+  const entries = state.files
+    .filter((file) => file.type !== "folder")
+    .map((file) => ({ file, path: getFilePath(state.files, file) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const lines = entries.flatMap(({ file, path }) => {
+    const tags = [
+      file.id === mainFile?.id && "main",
+      file.id === state.activeFileId && "open in editor",
+      file.type === "image" && "image",
+    ].filter(Boolean);
+    const header = `- ${path}${tags.length > 0 ? ` (${tags.join(", ")})` : ""}`;
+    if (file.type !== "tex") return [header];
+    const outline = parseTableOfContents(file.content ?? "").map(
+      (item) =>
+        `${"  ".repeat(item.level + 1)}- ${item.title} (line ${item.line})`,
+    );
+    return [header, ...outline];
+  });
+
+  return `The project contains these files, with the section outline of each LaTeX file:
+${lines.join("\n")}
+
+Only the file open in the editor is included below. Use the list_files tool to see every file and the read_file tool to read another file when you need its content.`;
+};
+
 export function useDocumentContext() {
   const aui = useAui();
 
@@ -63,15 +137,15 @@ Here is the current content of the document:
 ${content}
 \`\`\`
 
+${describeProject(documentState)}
+
 ${selectionInfo}
 
+${describePackages(documentState.files)}
+
 When helping the user, reference this document and provide relevant suggestions.`,
           config: activeProvider && activeModel
-            ? {
-                apiKey: activeProvider.apiKey || undefined,
-                baseUrl: activeProvider.baseUrl || undefined,
-                modelName: activeModel.modelName || undefined,
-              }
+            ? toModelRequestConfig(activeProvider, activeModel)
             : undefined,
         };
       },
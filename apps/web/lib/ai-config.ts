@@ -0,0 +1,58 @@
+export type AIProviderKind =
+  | "openai-compatible"
+  | "anthropic"
+  | "google"
+  | "ollama";
+
+export const REASONING_EFFORTS = ["low", "medium", "high"] as const;
+
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
+
+export const AI_PROVIDER_KINDS: {
+  kind: AIProviderKind;
+  label: string;
+  baseUrl: string;
+}[] = [
+  {
+    kind: "openai-compatible",
+    label: "OpenAI 兼容",
+    baseUrl: "https://api.openai.com/v1",
+  },
+  {
+    kind: "anthropic",
+    label: "Anthropic",
+    baseUrl: "https://api.anthropic.com/v1",
+  },
+  {
+    kind: "google",
+    label: "Google Gemini",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+  },
+  { kind: "ollama", label: "Ollama", baseUrl: "http://localhost:11434/api" },
+];
+
+/** The model settings the client sends with every `/api/chat` request. */
+export interface ModelRequestConfig {
+  kind?: AIProviderKind;
+  apiKey?: string;
+  baseUrl?: string;
+  modelName?: string;
+  reasoningEffort?: ReasoningEffort;
+}
+
+export function toModelRequestConfig(
+  provider: {
+    kind?: AIProviderKind;
+    apiKey: string;
+    baseUrl: string;
+  },
+  model: { modelName: string; reasoningEffort?: ReasoningEffort },
+): ModelRequestConfig {
+  return {
+    kind: provider.kind,
+    apiKey: provider.apiKey || undefined,
+    baseUrl: provider.baseUrl || undefined,
+    modelName: model.modelName || undefined,
+    reasoningEffort: model.reasoningEffort,
+  };
+}
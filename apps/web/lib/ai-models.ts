@@ -0,0 +1,134 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel, streamText } from "ai";
+import { createOllama } from "ollama-ai-provider-v2";
+import type {
+  AIProviderKind,
+  ModelRequestConfig,
+  ReasoningEffort,
+} from "@/lib/ai-config";
+
+type ProviderOptions = NonNullable<
+  Parameters<typeof streamText>[0]["providerOptions"]
+>;
+
+const DEFAULT_MODELS: Record<AIProviderKind, string> = {
+  "openai-compatible": "gpt-4o",
+  anthropic: "claude-sonnet-4-5",
+  google: "gemini-2.5-flash",
+  ollama: "llama3.1",
+};
+
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+export interface ResolvedModel {
+  model: LanguageModel;
+  modelName: string;
+  providerOptions?: ProviderOptions;
+}
+
+// Other OpenAI-compatible servers often reject reasoning_effort, so it is
+// only sent to OpenAI's own API.
+function isOpenAIEndpoint(baseUrl: string | undefined) {
+  if (!baseUrl) return true;
+  try {
+    return new URL(baseUrl).hostname === "api.openai.com";
+  } catch {
+    return false;
+  }
+}
+
+function reasoningOptions(
+  kind: AIProviderKind,
+  effort: ReasoningEffort | undefined,
+  baseUrl: string | undefined,
+): ProviderOptions | undefined {
+  if (!effort) return undefined;
+  switch (kind) {
+    case "openai-compatible":
+      return isOpenAIEndpoint(baseUrl)
+        ? { openai: { reasoningEffort: effort } }
+        : undefined;
+    case "anthropic":
+      return {
+        anthropic: {
+          thinking: { type: "enabled", budgetTokens: THINKING_BUDGETS[effort] },
+        },
+      };
+    case "google":
+      return {
+        google: {
+          thinkingConfig: {
+            thinkingBudget: THINKING_BUDGETS[effort],
+            includeThoughts: true,
+          },
+        },
+      };
+    case "ollama":
+      return { ollama: { think: true } };
+  }
+}
+
+/**
+ * Builds the language model for a request from the client's provider
+ * settings. Every mode of the chat route goes through here so that provider
+ * kinds and their options behave the same in chat, transform and tests.
+ */
+export function createLanguageModel(
+  config: ModelRequestConfig | undefined,
+): ResolvedModel {
+  const kind = config?.kind ?? "openai-compatible";
+  const modelName = config?.modelName || DEFAULT_MODELS[kind];
+  const baseURL = config?.baseUrl;
+  const providerOptions = reasoningOptions(
+    kind,
+    config?.reasoningEffort,
+    baseURL,
+  );
+
+  switch (kind) {
+    case "anthropic":
+      return {
+        model: createAnthropic({
+          apiKey: config?.apiKey || process.env.ANTHROPIC_API_KEY,
+          baseURL,
+        })(modelName),
+        modelName,
+        providerOptions,
+      };
+    case "google":
+      return {
+        model: createGoogleGenerativeAI({
+          apiKey: config?.apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+          baseURL,
+        })(modelName),
+        modelName,
+        providerOptions,
+      };
+    case "ollama":
+      return {
+        model: createOllama({
+          baseURL: baseURL || process.env.OLLAMA_BASE_URL,
+          headers: config?.apiKey
+            ? { Authorization: `Bearer ${config.apiKey}` }
+            : undefined,
+        })(modelName),
+        modelName,
+        providerOptions,
+      };
+    default:
+      return {
+        model: createOpenAI({
+          apiKey: config?.apiKey || process.env.OPENAI_API_KEY,
+          baseURL,
+        }).chat(modelName),
+        modelName,
+        providerOptions,
+      };
+  }
+}
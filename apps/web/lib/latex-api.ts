@@ -0,0 +1,83 @@
+import type { CompileDiagnostic } from "@/stores/document-store";
+
+export interface ApiResource {
+  path: string;
+  content?: string;
+  file?: string;
+  main?: boolean;
+  hash?: string;
+}
+
+export function getLatexApiUrl(): string {
+  return process.env.LATEX_API_URL || "http://localhost:3001";
+}
+
+export function getLatexApiHeaders(
+  headers: Record<string, string> = {},
+): Record<string, string> {
+  const apiKey = process.env.LATEX_API_KEY;
+  return apiKey ? { ...headers, "X-API-Key": apiKey } : headers;
+}
+
+export function summarizeCompileFailure(data: {
+  error?: string;
+  log_files?: Record<string, string>;
+  diagnostics?: CompileDiagnostic[];
+  missing?: string[];
+  limit?: string;
+}) {
+  const diagnostics = data.diagnostics ?? [];
+  const errors = diagnostics
+    .filter((d) => d.severity === "error")
+    .slice(0, 10)
+    .map((d) => {
+      const location = [d.file, d.line].filter((v) => v != null).join(":");
+      return location ? `${location}: ${d.message}` : d.message;
+    });
+  const logContent = data.log_files?.["__main_document__.log"] ?? "";
+  const errorLines = logContent
+    .split("\n")
+    .filter(
+      (line: string) =>
+        line.includes("Error") ||
+        line.includes("!") ||
+        line.includes("Missing"),
+    )
+    .slice(0, 10)
+    .join("\n");
+  return {
+    error: `Compilation failed: ${data.error || "Unknown error"}`,
+    details: errors.join("\n") || errorLines || logContent.slice(-1000),
+    diagnostics,
+    ...(data.missing ? { missing: data.missing } : {}),
+    ...(data.limit ? { limit: data.limit } : {}),
+  };
+}
+
+export function toApiResources(resources: ApiResource[]) {
+  return resources.map((r) => {
+    const resource: Record<string, unknown> = {
+      path: r.path,
+    };
+
+    const isBase64Image =
+      r.content &&
+      !r.file &&
+      (r.content.startsWith("/9j/") || r.content.startsWith("iVBOR"));
+
+    if (isBase64Image) {
+      const cleanBase64 = r.content?.replace(/\s/g, "");
+      resource.file = cleanBase64;
+    } else if (r.content !== undefined) {
+      resource.content = r.content;
+    }
+
+    if (r.file) {
+      const cleanBase64 = r.file.replace(/\s/g, "");
+      resource.file = cleanBase64;
+    }
+    if (r.main) resource.main = r.main;
+    if (r.hash) resource.hash = r.hash;
+    return resource;
+  });
+}
@@ -1,29 +1,630 @@
+import {
+  type BuildArtifact,
+  type CompileDiagnostic,
+  getMainFile,
+  type LatexCompiler,
+  type PdfBuildInfo,
+  type ProjectFile,
+  useDocumentStore,
+  useProjectStore,
+} from "@/stores/document-store";
+
 export interface CompileResource {
   path: string;
   content?: string;
   file?: string;
   main?: boolean;
+  hash?: string;
+}
+
+export interface CompileOptions {
+  compiler?: LatexCompiler;
+  projectId?: string | null;
+  outputs?: string[];
+  onLog?: (chunk: string) => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+export interface CompileOutput extends PdfBuildInfo {
+  pdf: Uint8Array;
+}
+
+export interface PdfRect {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+export interface RenderOptions {
+  pages?: number[];
+  format?: "png" | "svg";
+  dpi?: number;
+}
+
+export interface DiffSource {
+  path: string;
+  old: string;
+  new: string;
+}
+
+export interface WordCounts {
+  text: number;
+  headers: number;
+  captions: number;
+  headerCount: number;
+  floats: number;
+  mathInline: number;
+  mathDisplay: number;
+}
+
+export interface FileWordCount extends WordCounts {
+  file: string;
+  sections: Array<WordCounts & { type: string; title: string }>;
+}
+
+export interface WordCountReport {
+  total: WordCounts;
+  files: FileWordCount[];
+}
+
+export interface LintWarning {
+  file: string;
+  line: number;
+  column: number;
+  length: number;
+  number: number;
+  severity: "error" | "warning" | "info";
+  message: string;
+  fix?: { replacement: string };
+}
+
+export type TexFileKind = "packages" | "classes" | "fonts";
+
+export type TexAvailability = Record<TexFileKind, Record<string, boolean>>;
+
+export interface RenderedPage {
+  page: number;
+  src: string;
+}
+
+const POLL_INTERVAL_MS = 1000;
+// Matches the log stream's maxDuration, after which the build is abandoned.
+const BUILD_TIMEOUT_MS = 5 * 60 * 1000;
+const TEX_NAME_PATTERN = /^[A-Za-z0-9@_+][A-Za-z0-9@._+-]*$/;
+const availabilityCache = new Map<string, boolean>();
+const DEFAULT_OUTPUTS = ["log", "bbl", "blg"];
+
+export const LATEX_COMPILERS: LatexCompiler[] = [
+  "pdflatex",
+  "xelatex",
+  "lualatex",
+];
+
+export function detectTexProgram(content: string): LatexCompiler | null {
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (!trimmed.startsWith("%")) break;
+    const match = trimmed.match(/^%\s*!TeX\s+(?:TS-)?program\s*=\s*(\w+)/i);
+    const program = match?.[1].toLowerCase();
+    if (program && LATEX_COMPILERS.includes(program as LatexCompiler)) {
+      return program as LatexCompiler;
+    }
+  }
+  return null;
+}
+
+export function gatherResources(
+  files: ProjectFile[],
+  mainFileId: string | null,
+): CompileResource[] {
+  const mainFile = getMainFile(files, mainFileId);
+  const byId = new Map(files.map((f) => [f.id, f]));
+  const buildPath = (file: ProjectFile) => {
+    const segments: string[] = [file.name];
+    let parentId = file.parentId ?? null;
+    while (parentId) {
+      const parent = byId.get(parentId) ?? null;
+      if (!parent || parent.type !== "folder") break;
+      segments.unshift(parent.name);
+      parentId = parent.parentId ?? null;
+    }
+    return segments.join("/");
+  };
+
+  return files.flatMap((f) => {
+    if (f.type === "folder") return [];
+    const path = buildPath(f);
+    if (f.type === "tex") {
+      return {
+        path,
+        content: f.content ?? "",
+        main: f.id === mainFile?.id,
+      };
+    }
+    const dataUrl = f.dataUrl ?? "";
+    let base64 = dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl;
+    base64 = base64.replace(/\s/g, "");
+    return {
+      path,
+      file: base64,
+    };
+  });
+}
+
+export class LatexCompileError extends Error {
+  constructor(
+    message: string,
+    readonly diagnostics: CompileDiagnostic[],
+  ) {
+    super(message);
+    this.name = "LatexCompileError";
+  }
+}
+
+class ResourceCacheMissError extends Error {}
+
+async function isBuildExpired(buildId: string) {
+  try {
+    const response = await fetch(
+      `/api/compile/${encodeURIComponent(buildId)}`,
+      { cache: "no-store" },
+    );
+    return response.status === 404;
+  } catch {
+    return false;
+  }
+}
+
+function toCompileError(data: {
+  error?: string;
+  details?: string;
+  diagnostics?: CompileDiagnostic[];
+  missing?: string[];
+}) {
+  if (data.missing?.length) {
+    return new ResourceCacheMissError(data.error);
+  }
+  const message = data.details
+    ? `${data.error}\n\n${data.details}`
+    : data.error || "Compilation failed";
+  return new LatexCompileError(message, data.diagnostics ?? []);
+}
+
+function streamBuildLog(id: string, onLog: (chunk: string) => void) {
+  const source = new EventSource(`/api/compile/${id}/log`);
+  source.addEventListener("log", (event) => {
+    onLog((event as MessageEvent<string>).data);
+  });
+  source.addEventListener("end", () => source.close());
+  source.onerror = () => source.close();
+  return () => source.close();
+}
+
+async function waitForBuild(
+  id: string,
+  onQueuePosition?: (position: number) => void,
+): Promise<{ artifacts?: BuildArtifact[]; warnings?: CompileDiagnostic[] }> {
+  const deadline = Date.now() + BUILD_TIMEOUT_MS;
+  while (true) {
+    const response = await fetch(`/api/compile/${id}`, { cache: "no-store" });
+    const data = await response.json();
+
+    if (!response.ok || data.status === "failure") {
+      throw toCompileError(data);
+    }
+    if (data.status === "success") return data;
+    onQueuePosition?.(data.status === "queued" ? data.queuePosition : 0);
+
+    if (Date.now() >= deadline) {
+      throw new LatexCompileError("Timed out waiting for the build", []);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+async function hashResource(resource: CompileResource) {
+  const value = new TextEncoder().encode(
+    resource.file ?? resource.content ?? "",
+  );
+  const digest = await crypto.subtle.digest("SHA-256", value);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+async function findMissingResources(
+  projectId: string,
+  resources: CompileResource[],
+): Promise<Set<string>> {
+  const allPaths = new Set(resources.map((r) => r.path));
+  try {
+    const response = await fetch("/api/compile/check", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        projectId,
+        resources: resources.map(({ path, hash }) => ({ path, hash })),
+      }),
+    });
+    if (!response.ok) return allPaths;
+    const data = (await response.json()) as { missing: string[] };
+    return new Set(data.missing);
+  } catch {
+    return allPaths;
+  }
+}
+
+async function runBuild(
+  body: {
+    resources: CompileResource[];
+    compiler: LatexCompiler;
+    projectId?: string | null;
+    diff?: DiffSource;
+  },
+  options: CompileOptions,
+  endpoint = "/api/compile",
+): Promise<CompileOutput> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...body,
+      outputs: options.outputs ?? DEFAULT_OUTPUTS,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw toCompileError(data);
+  }
+
+  const id = encodeURIComponent(data.id);
+  options.onQueuePosition?.(data.queuePosition ?? 0);
+  const stopLog = options.onLog ? streamBuildLog(id, options.onLog) : null;
+
+  let result: Awaited<ReturnType<typeof waitForBuild>>;
+  try {
+    result = await waitForBuild(id, options.onQueuePosition);
+  } finally {
+    stopLog?.();
+    options.onQueuePosition?.(0);
+  }
+
+  const pdfResponse = await fetch(`/api/compile/${id}/pdf`);
+  if (!pdfResponse.ok) {
+    throw toCompileError(await pdfResponse.json());
+  }
+
+  const arrayBuffer = await pdfResponse.arrayBuffer();
+  return {
+    pdf: new Uint8Array(arrayBuffer),
+    buildId: data.id,
+    artifacts: await fetchArtifacts(id, result.artifacts ?? []),
+    warnings: result.warnings ?? [],
+  };
+}
+
+// The server drops builds after a few minutes, so the artifacts are copied
+// while they are still there.
+function fetchArtifacts(id: string, artifacts: BuildArtifact[]) {
+  return Promise.all(
+    artifacts.map(async (artifact) => {
+      try {
+        const response = await fetch(
+          `/api/compile/${id}/artifacts/${encodeURIComponent(artifact.name)}`,
+        );
+        if (!response.ok) return artifact;
+        return {
+          ...artifact,
+          data: new Uint8Array(await response.arrayBuffer()),
+        };
+      } catch {
+        return artifact;
+      }
+    }),
+  );
 }
 
 export async function compileLatex(
   resources: CompileResource[],
-): Promise<Uint8Array> {
-  const response = await fetch("/api/compile", {
+  options: CompileOptions = {},
+): Promise<CompileOutput> {
+  const main = resources.find((r) => r.main) ?? resources[0];
+  const compiler =
+    detectTexProgram(main?.content ?? "") ?? options.compiler ?? "pdflatex";
+  const { projectId } = options;
+
+  if (!projectId) {
+    return runBuild({ resources, compiler }, options);
+  }
+
+  const hashed = await Promise.all(
+    resources.map(async (r) => ({ ...r, hash: await hashResource(r) })),
+  );
+  const missing = await findMissingResources(projectId, hashed);
+  const changedOnly = hashed.map((r) =>
+    missing.has(r.path) ? r : { path: r.path, hash: r.hash, main: r.main },
+  );
+
+  try {
+    return await runBuild(
+      { resources: changedOnly, compiler, projectId },
+      options,
+    );
+  } catch (error) {
+    if (!(error instanceof ResourceCacheMissError)) throw error;
+    return runBuild({ resources: hashed, compiler, projectId }, options);
+  }
+}
+
+/** Compiles with the active project's compiler and workspace. */
+export function compileProject(
+  resources: CompileResource[],
+  options: Omit<CompileOptions, "compiler" | "projectId"> = {},
+): Promise<CompileOutput> {
+  const { projects, activeProjectId } = useProjectStore.getState();
+  return compileLatex(resources, {
+    ...options,
+    compiler: projects.find((p) => p.id === activeProjectId)?.compiler,
+    projectId: activeProjectId,
+  });
+}
+
+/**
+ * Compiles the open project and shows the result, or the errors, in the
+ * preview pane. Does nothing while another preview compile is running.
+ */
+export async function compileToPreview(): Promise<void> {
+  const store = useDocumentStore.getState();
+  if (store.isCompiling) return;
+  store.setIsCompiling(true);
+  try {
+    const { files, mainFileId } = useDocumentStore.getState();
+    const { pdf, ...build } = await compileProject(
+      gatherResources(files, mainFileId),
+      {
+        onLog: store.appendCompileLog,
+        onQueuePosition: store.setCompileQueuePosition,
+      },
+    );
+    store.setPdfData(pdf, build);
+  } catch (error) {
+    store.setCompileError(
+      error instanceof Error ? error.message : "编译失败",
+      error instanceof LatexCompileError ? error.diagnostics : [],
+    );
+  } finally {
+    store.setIsCompiling(false);
+  }
+}
+
+export function compileDiff(
+  resources: CompileResource[],
+  diff: DiffSource,
+  options: CompileOptions = {},
+): Promise<CompileOutput> {
+  const main = resources.find((r) => r.main) ?? resources[0];
+  const compiler =
+    detectTexProgram(main?.content ?? "") ?? options.compiler ?? "pdflatex";
+  return runBuild({ resources, compiler, diff }, options, "/api/compile/diff");
+}
+
+/**
+ * Result of a SyncTeX lookup. `expired` means the server no longer has the
+ * build, so the preview has to be recompiled before lookups work again.
+ */
+export type SyncTexResult<T> =
+  | { status: "found"; value: T }
+  | { status: "missing" }
+  | { status: "expired" };
+
+async function fetchSyncTex<T>(
+  buildId: string,
+  direction: "forward" | "inverse",
+  params: Record<string, string | number>,
+): Promise<SyncTexResult<T>> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)]),
+  );
+  try {
+    const response = await fetch(
+      `/api/compile/${encodeURIComponent(buildId)}/synctex/${direction}?${query}`,
+      { cache: "no-store" },
+    );
+    if (response.ok) {
+      return { status: "found", value: (await response.json()) as T };
+    }
+    if (response.status === 404 && (await isBuildExpired(buildId))) {
+      return { status: "expired" };
+    }
+    return { status: "missing" };
+  } catch {
+    return { status: "missing" };
+  }
+}
+
+export function syncTexForward(buildId: string, file: string, line: number) {
+  return fetchSyncTex<PdfRect>(buildId, "forward", { file, line });
+}
+
+export function syncTexInverse(
+  buildId: string,
+  page: number,
+  x: number,
+  y: number,
+) {
+  return fetchSyncTex<SourceLocation>(buildId, "inverse", { page, x, y });
+}
+
+export async function renderPdfPages(
+  buildId: string,
+  options: RenderOptions = {},
+): Promise<{ pageCount: number; pages: RenderedPage[] } | null> {
+  try {
+    const response = await fetch(
+      `/api/compile/${encodeURIComponent(buildId)}/render`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(options),
+      },
+    );
+    if (!response.ok) return null;
+    const data = (await response.json()) as {
+      format: "png" | "svg";
+      pageCount: number;
+      pages: Array<{ page: number; content: string }>;
+    };
+    const mimeType = data.format === "svg" ? "image/svg+xml" : "image/png";
+    return {
+      pageCount: data.pageCount,
+      pages: data.pages.map((p) => ({
+        page: p.page,
+        src: `data:${mimeType};base64,${p.content}`,
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function renderSnippet(
+  snippet: string,
+  options: { preamble?: string; compiler?: LatexCompiler } = {},
+): Promise<string> {
+  const response = await fetch("/api/compile/snippet", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ resources }),
+    body: JSON.stringify({ snippet, ...options, format: "svg" }),
   });
+  const data = await response.json();
+  if (!response.ok) {
+    throw toCompileError(data);
+  }
+  return `data:image/svg+xml;base64,${data.content}`;
+}
+
+export async function countWords(
+  resources: CompileResource[],
+): Promise<WordCountReport | null> {
+  try {
+    const response = await fetch("/api/compile/count", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ resources }),
+    });
+    if (!response.ok) return null;
+    return (await response.json()) as WordCountReport;
+  } catch {
+    return null;
+  }
+}
+
+export async function lintLatex(
+  resources: CompileResource[],
+  suppress: number[] = [],
+): Promise<LintWarning[] | null> {
+  try {
+    const response = await fetch("/api/compile/lint", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ resources, suppress }),
+    });
+    if (!response.ok) return null;
+    const data = (await response.json()) as { warnings: LintWarning[] };
+    return data.warnings;
+  } catch {
+    return null;
+  }
+}
 
+export async function formatLatex(
+  content: string,
+  config?: string,
+): Promise<string> {
+  const response = await fetch("/api/compile/format", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ content, config }),
+  });
+  const data = await response.json();
   if (!response.ok) {
-    const data = await response.json();
-    const message = data.details
-      ? `${data.error}\n\n${data.details}`
-      : data.error || "Compilation failed";
-    throw new Error(message);
+    throw new Error(data.error || "Formatting failed");
+  }
+  return data.content as string;
+}
+
+export function getKnownAvailability(
+  kind: TexFileKind,
+  name: string,
+): boolean | undefined {
+  return availabilityCache.get(`${kind}:${name}`);
+}
+
+export async function checkTexAvailability(
+  query: Partial<Record<TexFileKind, string[]>>,
+): Promise<TexAvailability | null> {
+  const kinds: TexFileKind[] = ["packages", "classes", "fonts"];
+  const missing = Object.fromEntries(
+    kinds.map((kind) => [
+      kind,
+      [...new Set(query[kind] ?? [])].filter(
+        (name) =>
+          TEX_NAME_PATTERN.test(name) &&
+          getKnownAvailability(kind, name) === undefined,
+      ),
+    ]),
+  );
+
+  if (kinds.some((kind) => missing[kind].length > 0)) {
+    try {
+      const response = await fetch("/api/compile/packages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(missing),
+      });
+      if (!response.ok) return null;
+      const data = (await response.json()) as TexAvailability;
+      for (const kind of kinds) {
+        for (const [name, available] of Object.entries(data[kind] ?? {})) {
+          availabilityCache.set(`${kind}:${name}`, available);
+        }
+      }
+    } catch {
+      return null;
+    }
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  return new Uint8Array(arrayBuffer);
+  const result: TexAvailability = { packages: {}, classes: {}, fonts: {} };
+  for (const kind of kinds) {
+    for (const name of query[kind] ?? []) {
+      const available = getKnownAvailability(kind, name);
+      if (available !== undefined) result[kind][name] = available;
+    }
+  }
+  return result;
 }
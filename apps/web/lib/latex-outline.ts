@@ -0,0 +1,65 @@
+export interface TocItem {
+  level: number;
+  title: string;
+  line: number;
+}
+
+export function parseTableOfContents(content: string): TocItem[] {
+  const lines = content.split("\n");
+  const toc: TocItem[] = [];
+
+  const sectionRegex =
+    /\\(section|subsection|subsubsection|chapter|part)\*?\s*\{([^}]*)\}/;
+
+  const levelMap: Record<string, number> = {
+    part: 0,
+    chapter: 1,
+    section: 2,
+    subsection: 3,
+    subsubsection: 4,
+  };
+
+  lines.forEach((line, index) => {
+    const match = line.match(sectionRegex);
+    if (match) {
+      const [, type, title] = match;
+      toc.push({
+        level: levelMap[type] ?? 2,
+        title: title.trim(),
+        line: index + 1,
+      });
+    }
+  });
+
+  return toc;
+}
+
+export interface PackageReference {
+  name: string;
+  from: number;
+  to: number;
+}
+
+function isCommentedOut(content: string, index: number) {
+  const lineStart = content.lastIndexOf("\n", index - 1) + 1;
+  return /(^|[^\\])%/.test(content.slice(lineStart, index));
+}
+
+export function parsePackageReferences(content: string): PackageReference[] {
+  const references: PackageReference[] = [];
+  const packageRegex =
+    /\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+
+  for (const match of content.matchAll(packageRegex)) {
+    if (isCommentedOut(content, match.index)) continue;
+    let offset = match.index + match[0].indexOf("{") + 1;
+    for (const part of match[1].split(",")) {
+      const name = part.trim();
+      const from = offset + part.indexOf(name);
+      if (name) references.push({ name, from, to: from + name.length });
+      offset += part.length + 1;
+    }
+  }
+
+  return references;
+}
@@ -0,0 +1,108 @@
+export interface DiffHunk {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function offsetOf(lines: string[], index: number) {
+  let offset = 0;
+  for (let i = 0; i < index; i++) offset += lines[i].length;
+  return offset;
+}
+
+export function diffLines(base: string, next: string): DiffHunk[] {
+  if (base === next) return [];
+  const a = splitLines(base);
+  const b = splitLines(next);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const hunks: DiffHunk[] = [];
+  const baseOffset = offsetOf(a, start);
+
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) {
+    hunks.push({
+      from: baseOffset,
+      to: baseOffset + a.slice(start, endA).join("").length,
+      insert: b.slice(start, endB).join(""),
+    });
+    return hunks;
+  }
+
+  // Longest common subsequence over the differing middle, walked forwards
+  // to group consecutive edits into hunks.
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[start + i] === b[start + j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  let offset = baseOffset;
+  let pending: DiffHunk | null = null;
+  const flush = () => {
+    if (pending) hunks.push(pending);
+    pending = null;
+  };
+
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      flush();
+      offset += a[start + i].length;
+      i++;
+      j++;
+      continue;
+    }
+    pending ??= { from: offset, to: offset, insert: "" };
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      pending.insert += b[start + j];
+      j++;
+    } else {
+      offset += a[start + i].length;
+      pending.to = offset;
+      i++;
+    }
+  }
+  flush();
+  return hunks;
+}
+
+export function applyHunks(text: string, hunks: DiffHunk[]): string {
+  let result = text;
+  for (const hunk of [...hunks].sort((x, y) => y.from - x.from)) {
+    result = result.slice(0, hunk.from) + hunk.insert + result.slice(hunk.to);
+  }
+  return result;
+}
+
+export function countChangedLines(base: string, hunks: DiffHunk[]) {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of hunks) {
+    added += splitLines(hunk.insert).length;
+    removed += splitLines(base.slice(hunk.from, hunk.to)).length;
+  }
+  return { added, removed };
+}
@@ -1,5 +1,10 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  type AIProviderKind,
+  REASONING_EFFORTS,
+  type ReasoningEffort,
+} from "@/lib/ai-config";
 import { indexedDBStorage } from "@/lib/storage/indexeddb-storage";
 
 const DEFAULT_TEX_CONTENT = `\\documentclass[11pt]{article}
@@ -93,6 +98,8 @@ Press \\textbf{Ctrl/⌘ + Enter} to compile your document. Press \\textbf{Enter}
 \\end{document}
 `;
 
+const MAX_COMPILE_LOG_LENGTH = 20000;
+
 export type AppLanguage = "zh-CN" | "en";
 
 export interface ProjectFile {
@@ -108,6 +115,7 @@ export interface AIModelConfig {
   id: string;
   modelName: string;
   displayName?: string;
+  reasoningEffort?: ReasoningEffort;
   isAvailable?: boolean;
   lastTestedAt?: string;
 }
@@ -115,6 +123,7 @@ export interface AIModelConfig {
 export interface AIProviderConfig {
   id: string;
   name: string;
+  kind?: AIProviderKind;
   baseUrl: string;
   apiKey: string;
   models: AIModelConfig[];
@@ -127,6 +136,28 @@ export type ModelAssignmentKey =
   | "expand"
   | "translate";
 
+export interface CompileDiagnostic {
+  severity: "error" | "warning" | "info";
+  file: string | null;
+  line: number | null;
+  message: string;
+  context: string | null;
+}
+
+export interface BuildArtifact {
+  name: string;
+  type: string;
+  size: number;
+  /** Copy fetched when the build finished, so it outlives the server build. */
+  data?: Uint8Array;
+}
+
+export interface PdfBuildInfo {
+  buildId: string;
+  artifacts: BuildArtifact[];
+  warnings: CompileDiagnostic[];
+}
+
 export interface DocumentHistoryEntry {
   id: string;
   fileId: string;
@@ -137,13 +168,22 @@ export interface DocumentHistoryEntry {
 interface DocumentState {
   files: ProjectFile[];
   activeFileId: string;
+  mainFileId: string | null;
   cursorPosition: number;
   viewLineNumber: number;
   selectionRange: { start: number; end: number } | null;
   jumpToPosition: number | null;
   isThreadOpen: boolean;
   pdfData: Uint8Array | null;
+  pdfBuildId: string | null;
+  pdfArtifacts: BuildArtifact[];
+  pdfSyncRequest: { fileId: string; line: number } | null;
+  pdfPageRequest: number | null;
   compileError: string | null;
+  compileDiagnostics: CompileDiagnostic[];
+  compileWarnings: CompileDiagnostic[];
+  compileLog: string;
+  compileQueuePosition: number;
   isCompiling: boolean;
   isSaving: boolean;
   hasUnsavedChanges: boolean;
@@ -153,6 +193,7 @@ interface DocumentState {
   hydratedKey: string | null;
 
   setActiveFile: (id: string) => void;
+  setMainFile: (id: string) => void;
   addFile: (file: Omit<ProjectFile, "id">) => string;
   addFolder: (name: string, parentId?: string | null) => string;
   moveFile: (id: string, parentId: string | null) => void;
@@ -164,10 +205,19 @@ interface DocumentState {
   setSelectionRange: (range: { start: number; end: number } | null) => void;
   requestJumpToPosition: (position: number) => void;
   clearJumpRequest: () => void;
+  requestPdfSync: (fileId: string, line: number) => void;
+  clearPdfSyncRequest: () => void;
+  requestPdfPage: (page: number) => void;
+  clearPdfPageRequest: () => void;
   setThreadOpen: (open: boolean) => void;
-  setPdfData: (data: Uint8Array | null) => void;
-  setCompileError: (error: string | null) => void;
+  setPdfData: (data: Uint8Array | null, build?: PdfBuildInfo | null) => void;
+  setCompileError: (
+    error: string | null,
+    diagnostics?: CompileDiagnostic[],
+  ) => void;
   setIsCompiling: (isCompiling: boolean) => void;
+  appendCompileLog: (chunk: string) => void;
+  setCompileQueuePosition: (position: number) => void;
   setIsSaving: (isSaving: boolean) => void;
   markDirty: () => void;
   markSaved: () => void;
@@ -179,7 +229,11 @@ interface DocumentState {
   findAndReplace: (find: string, replace: string) => boolean;
   setInitialized: () => void;
   setHydratedKey: (key: string | null) => void;
-  loadProject: (files: ProjectFile[], activeFileId?: string | null) => void;
+  loadProject: (
+    files: ProjectFile[],
+    activeFileId?: string | null,
+    mainFileId?: string | null,
+  ) => void;
   resetProject: () => void;
 
   get fileName(): string;
@@ -188,10 +242,16 @@ interface DocumentState {
   setContent: (content: string) => void;
 }
 
+export type LatexCompiler = "pdflatex" | "xelatex" | "lualatex";
+
 export interface ProjectMeta {
   id: string;
   name: string;
   createdAt: string;
+  compiler?: LatexCompiler;
+  thumbnail?: string;
+  lintSuppressions?: number[];
+  formatterConfig?: string;
 }
 
 interface ProjectState {
@@ -199,6 +259,10 @@ interface ProjectState {
   activeProjectId: string | null;
   createProject: (name?: string) => string;
   renameProject: (id: string, name: string) => void;
+  setProjectCompiler: (id: string, compiler: LatexCompiler) => void;
+  setProjectThumbnail: (id: string, thumbnail: string) => void;
+  setProjectLintSuppressions: (id: string, suppressions: number[]) => void;
+  setProjectFormatterConfig: (id: string, config: string) => void;
   deleteProject: (id: string) => void;
   setActiveProject: (id: string) => void;
   resetProjects: () => void;
@@ -264,13 +328,22 @@ function createDefaultDocumentState() {
   return {
     files: buildDefaultFiles(),
     activeFileId: "default-tex",
+    mainFileId: null,
     cursorPosition: 0,
     viewLineNumber: 1,
     selectionRange: null,
     jumpToPosition: null,
     isThreadOpen: false,
     pdfData: null,
+    pdfBuildId: null,
+    pdfArtifacts: [] as BuildArtifact[],
+    pdfSyncRequest: null,
+    pdfPageRequest: null,
     compileError: null,
+    compileDiagnostics: [] as CompileDiagnostic[],
+    compileWarnings: [] as CompileDiagnostic[],
+    compileLog: "",
+    compileQueuePosition: 0,
     isCompiling: false,
     isSaving: false,
     hasUnsavedChanges: false,
@@ -372,6 +445,11 @@ function normalizeProviders(
           isAvailable: Boolean(model.isAvailable),
           lastTestedAt:
             typeof model.lastTestedAt === "string" ? model.lastTestedAt : undefined,
+          reasoningEffort:
+            typeof model.reasoningEffort === "string" &&
+            REASONING_EFFORTS.includes(model.reasoningEffort)
+              ? model.reasoningEffort
+              : undefined,
         } as AIModelConfig;
       });
       return { ...provider, models };
@@ -445,6 +523,57 @@ async function hashPassword(password: string): Promise<string> {
     .join("");
 }
 
+export function getMainFile(
+  files: ProjectFile[],
+  mainFileId: string | null,
+): ProjectFile | null {
+  const texFiles = files.filter((f) => f.type === "tex");
+  return (
+    texFiles.find((f) => f.id === mainFileId) ??
+    texFiles.find((f) => f.name === "document.tex" && !f.parentId) ??
+    texFiles.find((f) => /^\s*\\documentclass/m.test(f.content ?? "")) ??
+    texFiles[0] ??
+    null
+  );
+}
+
+export function getFilePath(files: ProjectFile[], file: ProjectFile): string {
+  const segments: string[] = [file.name];
+  let parentId = file.parentId ?? null;
+  while (parentId) {
+    const parent = files.find((f) => f.id === parentId);
+    if (!parent || parent.type !== "folder") break;
+    segments.unshift(parent.name);
+    parentId = parent.parentId ?? null;
+  }
+  return segments.join("/");
+}
+
+export function findFileByPath(
+  files: ProjectFile[],
+  path: string,
+): ProjectFile | null {
+  const normalized = path.replace(/^\.\//, "");
+  return (
+    files.find(
+      (f) =>
+        f.type !== "folder" &&
+        (getFilePath(files, f) === normalized ||
+          getFilePath(files, f) === `${normalized}.tex`),
+    ) ?? null
+  );
+}
+
+export function getLineOffset(content: string, line: number) {
+  const lines = content.split("\n");
+  const target = Math.min(Math.max(line, 1), lines.length);
+  let offset = 0;
+  for (let i = 0; i < target - 1; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset;
+}
+
 function getActiveFile(state: { files: ProjectFile[]; activeFileId: string }) {
   const active = state.files.find((f) => f.id === state.activeFileId) ?? null;
   if (active && active.type !== "folder") return active;
@@ -464,12 +593,23 @@ export const useDocumentStore = create<DocumentState>()(
           selectionRange: null,
         }),
 
+      setMainFile: (id) => set({ mainFileId: id }),
+
       setSelectionRange: (range) => set({ selectionRange: range }),
 
       requestJumpToPosition: (position) => set({ jumpToPosition: position }),
 
       clearJumpRequest: () => set({ jumpToPosition: null }),
 
+      requestPdfSync: (fileId, line) =>
+        set({ pdfSyncRequest: { fileId, line } }),
+
+      clearPdfSyncRequest: () => set({ pdfSyncRequest: null }),
+
+      requestPdfPage: (page) => set({ pdfPageRequest: page }),
+
+      clearPdfPageRequest: () => set({ pdfPageRequest: null }),
+
       addFile: (file) => {
         const id = generateId();
         set((state) => ({
@@ -555,11 +695,36 @@ export const useDocumentStore = create<DocumentState>()(
 
       setThreadOpen: (open) => set({ isThreadOpen: open }),
 
-      setPdfData: (data) => set({ pdfData: data, compileError: null }),
+      setPdfData: (data, build = null) =>
+        set({
+          pdfData: data,
+          pdfBuildId: build?.buildId ?? null,
+          pdfArtifacts: build?.artifacts ?? [],
+          compileError: null,
+          compileDiagnostics: [],
+          compileWarnings: build?.warnings ?? [],
+        }),
+
+      setCompileError: (error, diagnostics = []) =>
+        set({
+          compileError: error,
+          compileDiagnostics: diagnostics,
+          compileWarnings: [],
+          pdfData: null,
+          pdfBuildId: null,
+          pdfArtifacts: [],
+        }),
+
+      setIsCompiling: (isCompiling) =>
+        set(isCompiling ? { isCompiling, compileLog: "" } : { isCompiling }),
 
-      setCompileError: (error) => set({ compileError: error, pdfData: null }),
+      appendCompileLog: (chunk) =>
+        set((state) => ({
+          compileLog: (state.compileLog + chunk).slice(-MAX_COMPILE_LOG_LENGTH),
+        })),
 
-      setIsCompiling: (isCompiling) => set({ isCompiling }),
+      setCompileQueuePosition: (position) =>
+        set({ compileQueuePosition: position }),
 
       setIsSaving: (isSaving) => set({ isSaving }),
 
@@ -616,25 +781,31 @@ export const useDocumentStore = create<DocumentState>()(
 
       setHydratedKey: (key) => set({ hydratedKey: key }),
 
-      loadProject: (files, activeFileId) => {
+      loadProject: (files, activeFileId, mainFileId) => {
         const nextFiles = files.length > 0 ? files : buildDefaultFiles();
         const defaultActive =
-          nextFiles.find(
-            (f) => f.type === "tex" && f.name === "document.tex",
-          ) ??
-          nextFiles.find((f) => f.type === "tex") ??
+          getMainFile(nextFiles, mainFileId ?? null) ??
           nextFiles.find((f) => f.type !== "folder") ??
           nextFiles[0];
         const nextActiveId = activeFileId ?? defaultActive?.id ?? "default-tex";
         set({
           files: nextFiles,
           activeFileId: nextActiveId,
+          mainFileId: mainFileId ?? null,
           cursorPosition: 0,
           viewLineNumber: 1,
           selectionRange: null,
           jumpToPosition: null,
           pdfData: null,
+          pdfBuildId: null,
+          pdfArtifacts: [],
+          pdfSyncRequest: null,
+          pdfPageRequest: null,
           compileError: null,
+          compileDiagnostics: [],
+          compileWarnings: [],
+          compileLog: "",
+          compileQueuePosition: 0,
           isCompiling: false,
           isSaving: false,
           hasUnsavedChanges: false,
@@ -755,16 +926,19 @@ export const useDocumentStore = create<DocumentState>()(
       partialize: (state) => ({
         files: state.files,
         activeFileId: state.activeFileId,
+        mainFileId: state.mainFileId,
         pdfData: state.pdfData,
         historyEntries: state.historyEntries,
         lastSavedAt: state.lastSavedAt,
       }),
       merge: (persisted, current) => {
         const merged = { ...current, ...(persisted as object) };
+        merged.mainFileId =
+          (persisted as { mainFileId?: string | null }).mainFileId ?? null;
         const files = merged.files as ProjectFile[];
-        const docTex = files.find((f) => f.name === "document.tex");
-        if (docTex) {
-          merged.activeFileId = docTex.id;
+        const mainFile = getMainFile(files, merged.mainFileId);
+        if (mainFile) {
+          merged.activeFileId = mainFile.id;
         } else if (files.length > 0) {
           merged.activeFileId = files[0].id;
         }
@@ -799,6 +973,30 @@ export const useProjectStore = create<ProjectState>()(
             p.id === id ? { ...p, name: name.trim() || p.name } : p,
           ),
         })),
+      setProjectCompiler: (id, compiler) =>
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, compiler } : p,
+          ),
+        })),
+      setProjectThumbnail: (id, thumbnail) =>
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, thumbnail } : p,
+          ),
+        })),
+      setProjectLintSuppressions: (id, lintSuppressions) =>
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, lintSuppressions } : p,
+          ),
+        })),
+      setProjectFormatterConfig: (id, formatterConfig) =>
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, formatterConfig } : p,
+          ),
+        })),
       deleteProject: (id) => {
         const state = get();
         const remaining = state.projects.filter((p) => p.id !== id);
@@ -1072,6 +1270,43 @@ export const useUiStore = create<UiState>((set) => ({
   setCenterView: (centerView) => set({ centerView }),
 }));
 
+export interface PendingChange {
+  id: string;
+  fileId: string;
+  source: string;
+  base: string;
+  proposed: string;
+  /** Path of a file that does not exist yet and is created on accept. */
+  create?: string;
+  /** New name given to the file on accept. */
+  rename?: string;
+}
+
+interface PendingChangeState {
+  changes: PendingChange[];
+  stageChange: (change: Omit<PendingChange, "id">) => string;
+  updateChange: (
+    id: string,
+    patch: Partial<Pick<PendingChange, "base" | "proposed" | "rename">>,
+  ) => void;
+  removeChange: (id: string) => void;
+}
+
+export const usePendingChangeStore = create<PendingChangeState>((set) => ({
+  changes: [],
+  stageChange: (change) => {
+    const id = generateId();
+    set((state) => ({ changes: [...state.changes, { ...change, id }] }));
+    return id;
+  },
+  updateChange: (id, patch) =>
+    set((state) => ({
+      changes: state.changes.map((c) => (c.id === id ? { ...c, ...patch } : c)),
+    })),
+  removeChange: (id) =>
+    set((state) => ({ changes: state.changes.filter((c) => c.id !== id) })),
+}));
+
 export interface ChatSession {
   id: string;
   title: string;